@@ -1,64 +1,128 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useSyncExternalStore } from 'react';
 import { FileUploader } from './components/FileUploader';
 import { Button } from './components/Button';
-import { Toggle } from './components/Toggle';
 import { AnalysisPanel } from './components/AnalysisPanel';
-import { analyzeFace, performFaceSwap } from './services/geminiService';
-import { loadPreferences, updatePreferences } from './services/storageService';
-import { DEFAULT_SWAP_SETTINGS } from './constants';
-import { FaceAnalysisResult, ProcessedImage, SwapSettings } from './types';
-import JSZip from 'jszip';
+import { FaceBoxOverlay } from './components/FaceBoxOverlay';
+import { IdentityLibrary } from './components/IdentityLibrary';
+import { SettingsControls } from './components/SettingsControls';
+import { PresetManager } from './components/PresetManager';
+import { VariantBrowser } from './components/VariantBrowser';
+import { ReviewViewer } from './components/ReviewViewer';
+import { ExportDialog } from './components/ExportDialog';
+import { ConsentEditor } from './components/ConsentEditor';
+import { ReviewPanel } from './components/ReviewPanel';
+import { MaskEditor } from './components/MaskEditor';
+import { ProjectSwitcher } from './components/ProjectSwitcher';
+import { UsagePanel } from './components/UsagePanel';
+import { DiagnosticsDrawer } from './components/DiagnosticsDrawer';
+import { activeProvider } from './services/imageProvider';
+import { runSwapJob, SwapJobResult } from './services/swapPipeline';
+import { analyzeCached } from './services/analysisService';
+import { hashBytes } from './services/imageUtils';
+import {
+  appendUsage, createProject, deletePreset, deleteProject, duplicateProject, estimateStorage, listProjects, loadActiveProjectId,
+  importProject, loadExportOptions, loadPresets, loadSession, loadUsage, saveActiveProjectId, saveExportOptions, savePreset, saveProject, saveSession, StorageLoadError, StorageQuotaError, StoredSession
+} from './services/storageService';
+import { createPreset, describeSettings, effectiveSettings } from './services/presets';
+import { createBatchQueue, BatchQueue } from './services/batchQueue';
+import { assertConsent, blockedIdentities, ConsentError, consentStatus, isConsentBlocking } from './services/consent';
+import { buildExportZip, filenameFields, identityIdsFor, outputExtension, renderFilename, renderOutput } from './services/exportService';
+import { ARCHIVE_EXTENSION, exportProjectArchive, importProjectArchive } from './services/projectArchive';
+import { createTargetStore } from './services/targetStore';
+import { describeFailure, toSwapError } from './services/errors';
+import { describeEngine, isApprovedDraft, isDraftOutput, jobTier, modelLabel, settingsForTier } from './services/engine';
+import { countByReview, matchesFilters, reviewState, TargetFilters } from './services/review';
+import { costByTarget, costOf, estimateTargetCost, formatCost, summarize, usageCsv } from './services/usage';
+import { listFaces, resolveTargetFaces } from './services/faceMetrics';
+import { checkReference } from './services/referenceQuality';
+import { assignedIdentityIds, createIdentity, identityForFace, nextIdentityName, resolveSwapSources } from './services/identities';
+import { BATCH_QUEUE_DEFAULTS, CONSENT_USAGES, DEFAULT_EXPORT_OPTIONS, DEFAULT_SWAP_SETTINGS, ERROR_KINDS, MAX_BATCH_CONCURRENCY, MAX_REFERENCE_IMAGES } from './constants';
+import { CallUsage, ConsentUsage, ExportOptions, FaceAnalysisResult, ProcessedImage, Project, ReviewState, SettingsPreset, SourceIdentity, SwapFailure, SwapSettings, UsageRecord } from './types';
 import saveAs from 'file-saver';
 
-// Simple in-memory cache to prevent re-analyzing the same file
-const analysisCache = new Map<string, FaceAnalysisResult>();
-
-// Helper to hash file for cache key
-const generateFileHash = async (file: File): Promise<string> => {
-  const buffer = await file.arrayBuffer();
-  const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
-  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
-};
+const formatBytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
 
 function App() {
   const [isStorageLoaded, setIsStorageLoaded] = useState(false);
-  const [sourceFaces, setSourceFaces] = useState<string[]>([]);
-  const [targets, setTargets] = useState<ProcessedImage[]>([]);
-  const [analysis, setAnalysis] = useState<FaceAnalysisResult | null>(null);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [identities, setIdentities] = useState<SourceIdentity[]>([]);
+  const [activeIdentityId, setActiveIdentityId] = useState<string | undefined>(undefined);
+  // Target lifecycle lives outside React state so async batch jobs always see the current list
+  const [targetStore] = useState(() => createTargetStore());
+  const targets = useSyncExternalStore(targetStore.subscribe, targetStore.getState);
+  const [analyzingIdentities, setAnalyzingIdentities] = useState<Set<string>>(new Set());
+  const [selectedTargetId, setSelectedTargetId] = useState<string | null>(null);
+  const [analyzingTargets, setAnalyzingTargets] = useState<Set<string>>(new Set());
+  const [sortBy, setSortBy] = useState<'added' | 'score_asc' | 'score_desc'>('added');
+  const [filters, setFilters] = useState<TargetFilters>({ status: 'all', review: 'all' });
   const [settings, setSettings] = useState<SwapSettings>(DEFAULT_SWAP_SETTINGS);
+  const [presets, setPresets] = useState<SettingsPreset[]>([]);
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+  const [variantTargetId, setVariantTargetId] = useState<string | null>(null);
+  const [reviewTargetId, setReviewTargetId] = useState<string | null>(null);
+  const [maskTargetId, setMaskTargetId] = useState<string | null>(null);
+  const [diagnosticsTargetId, setDiagnosticsTargetId] = useState<string | null>(null);
+  const [identityErrors, setIdentityErrors] = useState<Record<string, SwapFailure>>({});
   
-  const [isProcessingBatch, setIsProcessingBatch] = useState(false);
+  const [concurrency, setConcurrency] = useState(BATCH_QUEUE_DEFAULTS.concurrency);
   const [isZipping, setIsZipping] = useState(false); // New State for Zip
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
   const [autoRestoreMsg, setAutoRestoreMsg] = useState<string | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [unloadedProjectId, setUnloadedProjectId] = useState<string | undefined>(undefined); // load failed; never autosaved
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | undefined>(undefined);
+  const [usage, setUsage] = useState<UsageRecord[]>([]);
+  const [budget, setBudget] = useState<number | undefined>(undefined);
+  const [lastBatchId, setLastBatchId] = useState<string | undefined>(undefined);
+  const [budgetNotice, setBudgetNotice] = useState<string | null>(null);
+
+  const applySession = (session: StoredSession) => {
+    targetStore.dispatch({ type: 'load', targets: session.targets });
+    setIdentities(session.identities);
+    setActiveIdentityId(session.activeIdentityId ?? session.identities[0]?.id);
+    setSettings({ ...DEFAULT_SWAP_SETTINGS, ...session.settings });
+    setBudget(session.budget);
+    setBudgetNotice(null);
+    setLastBatchId(undefined);
+    setSelectedTargetId(null);
+    setCheckedIds(new Set());
+    setVariantTargetId(null);
+  };
 
-  // Load Preferences
+  const reportSaveError = async (e: unknown) => {
+    if (e instanceof StorageLoadError) {
+      setStorageError(e.message);
+      return;
+    }
+    if (!(e instanceof StorageQuotaError)) return;
+    const estimate = await estimateStorage();
+    const usage = estimate ? ` (${formatBytes(estimate.usage)} of ${formatBytes(estimate.quota)} used)` : '';
+    setStorageError(`${e.message}${usage} Download or remove some targets to free space.`);
+  };
+
+  // Load Session
   useEffect(() => {
     const init = async () => {
       try {
-        const prefs = await loadPreferences();
-        if (prefs) {
-          if (prefs.session_state) {
-             const s = prefs.session_state;
-             setTargets(s.targets || []);
-             setSourceFaces(s.sourceFaces || []); 
-             setAnalysis(s.analysis || null);
-             if (s.sourceFaces && s.sourceFaces.length > 0) setAutoRestoreMsg("✓ Session Restored");
-          } else if (prefs.last_used_source) {
-             // Fallback to legacy or new format
-             const lastSource = prefs.last_used_source as any;
-             if (lastSource.images) {
-                setSourceFaces(lastSource.images);
-             } else if (lastSource.image) {
-                setSourceFaces([lastSource.image]);
-             }
-             
-             setAnalysis(prefs.last_used_source.analysis); 
-             setAutoRestoreMsg("✓ Face Restored");
-          }
+        loadPresets().then(setPresets);
+        loadExportOptions().then(stored => stored && setExportOptions({ ...DEFAULT_EXPORT_OPTIONS, ...stored }));
+        let list = await listProjects();
+        if (list.length === 0) list = [await createProject('Project 1')];
+        const storedId = await loadActiveProjectId();
+        const projectId = list.some(p => p.id === storedId) ? storedId! : list[0].id;
+        setProjects(list);
+        setActiveProjectId(projectId);
+        try {
+          const session = await loadSession(projectId, list.find(p => p.id === projectId)?.name);
+          applySession(session);
+          if (session.identities.some(i => i.images.length > 0)) setAutoRestoreMsg("✓ Session Restored");
+        } catch (e) {
+          setUnloadedProjectId(projectId);
+          reportSaveError(e);
         }
       } catch (e) {
-        console.warn("Failed to load user preferences", e);
+        console.warn("Failed to load session", e);
       } finally {
         setIsStorageLoaded(true);
         setTimeout(() => setAutoRestoreMsg(null), 3000);
@@ -67,137 +131,720 @@ function App() {
     init();
   }, []);
 
-  // Auto-save
+  const upsertProject = (project: Project) => {
+    setProjects(prev => [project, ...prev.filter(p => p.id !== project.id)].sort((a, b) => b.updatedAt - a.updatedAt));
+  };
+
+  // Auto-save (incremental: only changed targets/identities are written)
   useEffect(() => {
-    if (!isStorageLoaded) return;
+    if (!isStorageLoaded || !activeProjectId || activeProjectId === unloadedProjectId) return;
     const timer = setTimeout(() => {
-      updatePreferences({ 
-        session_state: { targets, sourceFaces: sourceFaces, analysis: analysis || undefined } 
-      });
+      saveSession(activeProjectId, { targets, identities, activeIdentityId, settings, budget })
+        .then(project => {
+          setStorageError(null);
+          if (project) upsertProject(project);
+        })
+        .catch(reportSaveError);
     }, 1000);
     return () => clearTimeout(timer);
-  }, [isStorageLoaded, targets, sourceFaces, analysis]);
+  }, [isStorageLoaded, activeProjectId, unloadedProjectId, targets, identities, activeIdentityId, settings, budget]);
+
+  const activeIdentity = identities.find(i => i.id === activeIdentityId);
+
+  // Usage ledger of the open project. The ref is the source of truth so calls finishing back to back
+  // see each other when checking the budget.
+  const usageRef = useRef<UsageRecord[]>([]);
+  const batchOf = useRef(new Map<string, string>()); // target id -> batch it was queued in
+
+  useEffect(() => {
+    if (!activeProjectId) return;
+    let cancelled = false;
+    usageRef.current = [];
+    setUsage([]);
+    loadUsage(activeProjectId).then(records => {
+      if (cancelled) return;
+      usageRef.current = [...records, ...usageRef.current];
+      setUsage(usageRef.current);
+    });
+    return () => { cancelled = true; };
+  }, [activeProjectId]);
+
+  // Every billed call lands here. Reaching the budget pauses the queue; jobs already running still finish.
+  const recordUsage = (projectId: string, call: CallUsage, targetId?: string) => {
+    const record: UsageRecord = {
+      ...call,
+      id: Date.now().toString() + Math.random().toString(),
+      projectId,
+      targetId,
+      batchId: targetId && batchOf.current.get(targetId),
+      cost: costOf(call),
+      createdAt: Date.now(),
+    };
+    appendUsage(record).catch(err => console.warn("Failed to record usage", err));
+    if (projectId !== latest.current.activeProjectId) return;
+    usageRef.current = [...usageRef.current, record];
+    setUsage(usageRef.current);
+    const { budget } = latest.current;
+    if (budget !== undefined && summarize(usageRef.current).cost >= budget && queueRef.current?.getSnapshot().status === 'running') {
+      queueRef.current.pause();
+      setBudgetNotice(`Budget of ${formatCost(budget)} reached. The queue is paused; raise the budget to resume.`);
+    }
+  };
+
+  // Attributes calls to the project that was open when they started
+  const usageSink = (targetId?: string) => {
+    const projectId = latest.current.activeProjectId;
+    return projectId ? (call: CallUsage) => recordUsage(projectId, call, targetId) : undefined;
+  };
+
+  const updateIdentity = (id: string, update: (identity: SourceIdentity) => SourceIdentity) => {
+    setIdentities(prev => prev.map(i => i.id === id ? update(i) : i));
+  };
+
+  const addIdentity = () => {
+    const identity = createIdentity(nextIdentityName(identities));
+    setIdentities(prev => [...prev, identity]);
+    setActiveIdentityId(identity.id);
+  };
+
+  const deleteIdentity = (id: string) => {
+    setIdentities(prev => prev.filter(i => i.id !== id));
+    if (activeIdentityId === id) setActiveIdentityId(identities.find(i => i.id !== id)?.id);
+    // Targets assigned to a deleted identity fall back to the active one
+    targetStore.getState().forEach(t => {
+      const faceIdentities = t.faceIdentities && Object.fromEntries(Object.entries(t.faceIdentities).filter(([, v]) => v !== id));
+      if (t.identityId === id || faceIdentities && Object.keys(faceIdentities).length !== Object.keys(t.faceIdentities!).length) {
+        targetStore.dispatch({ type: 'patch', id: t.id, patch: {
+          identityId: t.identityId === id ? undefined : t.identityId,
+          faceIdentities,
+        } });
+      }
+    });
+  };
+
+  // Reference images are only sent to the model once the identity has consent on record
+  const identityConsentError = (identityId: string) => {
+    const identity = latest.current.identities.find(i => i.id === identityId);
+    const status = identity && consentStatus(identity);
+    if (status && !isConsentBlocking(status)) return null;
+    return new ConsentError(status?.message ?? "No consent recorded for this identity");
+  };
+
+  const analyzeIdentity = async (identityId: string, image: string, hash?: string) => {
+    const consentError = identityConsentError(identityId);
+    if (consentError) {
+      setIdentityErrors(prev => ({ ...prev, [identityId]: describeFailure(consentError) }));
+      return;
+    }
+    setAnalyzingIdentities(prev => new Set(prev).add(identityId));
+    try {
+      const result = await analyzeCached(image, hash, latest.current.settings.analysisModel, usageSink());
+      // Only keep it if this image is still the identity's primary reference
+      updateIdentity(identityId, i => i.images[0] === image ? { ...i, analysis: result } : i);
+      setIdentityErrors(prev => {
+        const next = { ...prev };
+        delete next[identityId];
+        return next;
+      });
+    } catch (err) {
+      console.error("Analysis failed", err);
+      setIdentityErrors(prev => ({ ...prev, [identityId]: describeFailure(err) }));
+    } finally {
+      setAnalyzingIdentities(prev => {
+        const next = new Set(prev);
+        next.delete(identityId);
+        return next;
+      });
+    }
+  };
 
   const handleSourceSelect = async (file: File) => {
-    const hash = await generateFileHash(file);
+    const hash = await hashBytes(await file.arrayBuffer());
+    // Uploading with an empty library starts the first identity
+    let identity = activeIdentity;
+    if (!identity) {
+      identity = createIdentity(nextIdentityName(identities));
+      const created = identity;
+      setIdentities(prev => [...prev, created]);
+      setActiveIdentityId(created.id);
+    }
+    const identityId = identity.id;
+    const isPrimary = identity.images.length === 0;
     const reader = new FileReader();
     
     reader.onload = async (e) => {
       const base64 = e.target?.result as string;
       
-      // Add to array instead of replacing
-      setSourceFaces(prev => {
+      updateIdentity(identityId, i => {
         // Prevent duplicates
-        if (prev.includes(base64)) return prev;
-        // Limit to 3 images
-        if (prev.length >= 3) return prev;
-        return [...prev, base64];
+        if (i.images.includes(base64)) return i;
+        if (i.images.length >= MAX_REFERENCE_IMAGES) return i;
+        return { ...i, images: [...i.images, base64] };
       });
 
       // Only analyze if it's the first image (Primary)
-      if (sourceFaces.length === 0) {
-        setAnalysis(null);
+      if (isPrimary) {
         setAutoRestoreMsg(null); 
-        
-        if (analysisCache.has(hash)) {
-          setAnalysis(analysisCache.get(hash)!);
-          return;
-        }
-
-        setIsAnalyzing(true);
-        try {
-          const result = await analyzeFace(base64);
-          analysisCache.set(hash, result);
-          setAnalysis(result);
-        } catch (err) {
-          console.error("Analysis failed", err);
-        } finally {
-          setIsAnalyzing(false);
-        }
+        await analyzeIdentity(identityId, base64, hash);
       }
     };
     reader.readAsDataURL(file);
   };
 
   const removeSourceImage = (index: number) => {
-      setSourceFaces(prev => {
-          const newFaces = [...prev];
-          newFaces.splice(index, 1);
-          return newFaces;
+      if (!activeIdentity) return;
+      const images = activeIdentity.images.filter((_, i) => i !== index);
+      const referenceChecks = activeIdentity.referenceChecks?.filter((_, i) => i !== index);
+      // Removing the primary promotes the next reference, which needs its own analysis
+      updateIdentity(activeIdentity.id, i => ({ ...i, images, referenceChecks, analysis: index === 0 ? undefined : i.analysis }));
+      if (index === 0 && images[0]) analyzeIdentity(activeIdentity.id, images[0]);
+  };
+
+  // Reference images being checked, and ones whose check failed (shown as such and retried on Recheck)
+  const checkingReferences = useRef(new Set<string>());
+  const [failedReferences, setFailedReferences] = useState<Set<string>>(new Set());
+
+  // Checks every unchecked reference of the active identity. Results are written by image rather than
+  // index, since references can be removed while a check is in flight.
+  useEffect(() => {
+    if (!activeIdentity || isConsentBlocking(consentStatus(activeIdentity))) return;
+    const identityId = activeIdentity.id;
+    activeIdentity.images.forEach((image, index) => {
+      if (activeIdentity.referenceChecks?.[index] || checkingReferences.current.has(image) || failedReferences.has(image)) return;
+      checkingReferences.current.add(image);
+      checkReference(image, undefined, latest.current.settings.analysisModel, usageSink())
+        .then(check => updateIdentity(identityId, i => {
+          const at = i.images.indexOf(image);
+          if (at < 0) return i;
+          const referenceChecks = i.images.map((_, k) => i.referenceChecks?.[k]);
+          referenceChecks[at] = check;
+          return { ...i, referenceChecks };
+        }))
+        .catch(err => {
+          console.warn("Reference check failed", err);
+          setFailedReferences(prev => new Set(prev).add(image));
+        })
+        .finally(() => checkingReferences.current.delete(image));
+    });
+  }, [activeIdentity, failedReferences]);
+
+  // A primary reference uploaded before consent was recorded is analyzed once it is
+  useEffect(() => {
+    if (!activeIdentity?.images[0] || activeIdentity.analysis || analyzingIdentities.has(activeIdentity.id)) return;
+    if (identityErrors[activeIdentity.id]?.kind !== 'consent' || isConsentBlocking(consentStatus(activeIdentity))) return;
+    analyzeIdentity(activeIdentity.id, activeIdentity.images[0]);
+  }, [activeIdentity]);
+
+  const recheckReferences = () => {
+    if (!activeIdentity) return;
+    setFailedReferences(prev => new Set([...prev].filter(image => !activeIdentity.images.includes(image))));
+    updateIdentity(activeIdentity.id, i => ({ ...i, referenceChecks: undefined }));
+  };
+
+  // Analyzes once per target; the result is stored on the target and reused by every swap attempt
+  const analyzeTarget = async (id: string): Promise<FaceAnalysisResult | undefined> => {
+    const target = targetStore.getTarget(id);
+    if (!target) return undefined;
+    if (target.analysis) return target.analysis;
+
+    setAnalyzingTargets(prev => new Set(prev).add(id));
+    try {
+      const { analysisModel } = effectiveSettings(latest.current.settings, target.settingsOverride);
+      const result = await analyzeCached(target.originalUrl, target.contentHash, analysisModel, usageSink(id));
+      targetStore.dispatch({ type: 'patch', id, patch: { analysis: result } });
+      return result;
+    } finally {
+      setAnalyzingTargets(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
       });
-      if (index === 0) setAnalysis(null); // Clear analysis if primary removed
+    }
+  };
+
+  // Upload-time analysis. A failure is kept on the target for diagnostics but doesn't fail it; the run retries.
+  // Targets whose identities lack consent are not sent; with none assigned yet there is nothing to check.
+  const preanalyzeTarget = (id: string) => {
+    const target = targetStore.getTarget(id);
+    const { identities, activeIdentityId, settings } = latest.current;
+    try {
+      if (target) assertConsent(assignedIdentityIds(target, activeIdentityId), identities, settings.intendedUsage);
+    } catch (err) {
+      targetStore.dispatch({ type: 'patch', id, patch: { failure: describeFailure(err) } });
+      return Promise.resolve();
+    }
+    return analyzeTarget(id).then(
+    () => {
+      if (targetStore.getTarget(id)?.status === 'idle') targetStore.dispatch({ type: 'patch', id, patch: { failure: undefined } });
+    },
+    err => {
+      console.warn("Target analysis failed", err);
+      targetStore.dispatch({ type: 'patch', id, patch: { failure: describeFailure(err) } });
+    },
+    );
   };
 
-  const handleTargetSelect = (file: File) => {
+  const handleTargetSelect = async (file: File) => {
+    const contentHash = await hashBytes(await file.arrayBuffer());
     const reader = new FileReader();
     reader.onload = (e) => {
-      setTargets(prev => [...prev, {
-        id: Date.now().toString() + Math.random().toString(),
+      const id = Date.now().toString() + Math.random().toString();
+      const sequence = targetStore.getState().reduce((max, t) => Math.max(max, t.sequence ?? 0), 0) + 1;
+      targetStore.dispatch({ type: 'add', target: {
+        id,
         originalUrl: e.target?.result as string,
+        fileName: file.name,
+        sequence,
+        contentHash,
         status: 'idle'
-      }]);
+      } });
+      preanalyzeTarget(id);
     };
     reader.readAsDataURL(file);
   };
 
-  // Recursive processor that does NOT depend on useEffect
-  const runBatchProcessor = async () => {
-    if (sourceFaces.length === 0) return;
-    setIsProcessingBatch(true);
+  // Queue callbacks outlive the render that created them, so they read the latest state from here
+  const latest = useRef({ identities, activeIdentityId, settings, activeProjectId, budget });
+  latest.current = { identities, activeIdentityId, settings, activeProjectId, budget };
 
-    // Get all idle items at the start
-    const idleIds = targets.filter(t => t.status === 'idle').map(t => t.id);
+  const queueRef = useRef<BatchQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createBatchQueue<SwapJobResult>({
+      concurrency,
+      run: async (id, signal) => {
+        const { identities, activeIdentityId, settings } = latest.current;
+        const target = targetStore.getTarget(id);
+        if (!target) throw new Error("Target was removed");
+        // Retries re-enter while already 'processing'; anything else must be a valid idle -> processing move
+        if (target.status !== 'processing' && !targetStore.dispatch({ type: 'start', id })) {
+          throw new Error(`Target cannot start from '${target.status}'`);
+        }
+        // Consent is checked before any model call, then again once the analysis has fixed the faces
+        assertConsent(resolveSwapSources(target, identities, activeIdentityId).map(s => s.identityId), identities, settings.intendedUsage);
+        const targetAnalysis = await analyzeTarget(id);
+        // Re-read: analysis may have just been attached, which changes the face selection
+        const sources = resolveSwapSources(targetStore.getTarget(id) || target, identities, activeIdentityId);
+        assertConsent(sources.map(s => s.identityId), identities, settings.intendedUsage);
+        const current = targetStore.getTarget(id) || target;
+        // Overrides and draft state may have changed while the job waited or retried
+        const targetSettings = effectiveSettings(settings, current.settingsOverride);
+        const tier = jobTier(current, targetSettings);
+        return runSwapJob({
+          sources,
+          targetImage: target.originalUrl,
+          settings: settingsForTier(targetSettings, tier),
+          targetAnalysis,
+          mask: current.maskUrl,
+          draft: tier === 'draft',
+          onUsage: usageSink(id),
+          signal
+        });
+      },
+      onSuccess: (id, { processedUrl, settings, model, identityIds, draft, scaleCheck, quality }) => {
+        batchOf.current.delete(id);
+        targetStore.dispatch({
+          type: 'complete', id, generation: {
+            id: Date.now().toString() + Math.random().toString(),
+            url: processedUrl, settings, model, createdAt: Date.now(), identityIds, scaleCheck, quality,
+            ...(draft ? { draft } : {})
+          }
+        });
+      },
+      onFailure: (id, error, attempts) => {
+        batchOf.current.delete(id);
+        targetStore.dispatch({ type: 'fail', id, failure: describeFailure(error, attempts) });
+      },
+      onCancel: (id) => {
+        batchOf.current.delete(id);
+        if (targetStore.getTarget(id)?.status === 'processing') targetStore.dispatch({ type: 'reset', id });
+      },
+    });
+  }
+  const queue = queueRef.current;
+  const queueState = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+  const isProcessingBatch = queueState.status !== 'idle';
 
-    for (const id of idleIds) {
-      // 1. Update status to processing
-      setTargets(prev => prev.map(t => t.id === id ? { ...t, status: 'processing' } : t));
+  useEffect(() => {
+    queue.setConcurrency(concurrency);
+  }, [queue, concurrency]);
 
-      try {
-        // 2. Find current target data (fresh state)
-        const currentTarget = targets.find(t => t.id === id); 
-        // Fallback: search in current state if not found
-        const targetUrl = targets.find(t => t.id === id)?.originalUrl;
-        
-        if (!targetUrl) continue;
+  // Writes the open project immediately (instead of waiting for the autosave debounce)
+  const flushActiveProject = async () => {
+    if (!activeProjectId || activeProjectId === unloadedProjectId) return;
+    const project = await saveSession(activeProjectId, { targets: targetStore.getState(), identities, activeIdentityId, settings, budget });
+    if (project) upsertProject(project);
+  };
 
-        const swappedImage = await performFaceSwap(sourceFaces, targetUrl, settings);
-        
-        setTargets(prev => prev.map(t => t.id === id ? { 
-          ...t, status: 'completed', processedUrl: swappedImage 
-        } : t));
-
-      } catch (error) {
-        setTargets(prev => prev.map(t => t.id === id ? { 
-          ...t, status: 'failed', error: error instanceof Error ? error.message : 'Error' 
-        } : t));
+  // Jobs belong to the open project, so switching away cancels them
+  const openProject = async (projectId: string) => {
+    if (isProcessingBatch) {
+      if (!window.confirm("Switching projects cancels the running batch. Continue?")) return false;
+      queue.cancel();
+    }
+    setIsStorageLoaded(false);
+    try {
+      await flushActiveProject();
+      // On failure the current project stays open
+      applySession(await loadSession(projectId, projects.find(p => p.id === projectId)?.name));
+      setUnloadedProjectId(undefined);
+      setActiveProjectId(projectId);
+      saveActiveProjectId(projectId);
+      return true;
+    } catch (e) {
+      reportSaveError(e);
+      return false;
+    } finally {
+      setIsStorageLoaded(true);
+    }
+  };
+
+  const handleCreateProject = async () => {
+    const project = await createProject(`Project ${projects.length + 1}`);
+    upsertProject(project);
+    await openProject(project.id);
+  };
+
+  const handleDuplicateProject = async (project: Project) => {
+    try {
+      if (project.id === activeProjectId) await flushActiveProject();
+      const copy = await duplicateProject(project.id, `${project.name} (copy)`);
+      upsertProject(copy);
+      await openProject(copy.id);
+    } catch (e) {
+      reportSaveError(e);
+    }
+  };
+
+  // Shown at once; put back if the write fails
+  const handleRenameProject = async (project: Project, name: string) => {
+    const renamed = { ...project, name };
+    setProjects(prev => prev.map(p => p.id === project.id ? renamed : p));
+    try {
+      await saveProject(renamed);
+    } catch (e) {
+      setProjects(prev => prev.map(p => p.id === project.id && p.name === name ? { ...p, name: project.name } : p));
+      if (e instanceof StorageQuotaError) reportSaveError(e);
+      else window.alert(`Rename failed: ${toSwapError(e).message}`);
+    }
+  };
+
+  const handleExportProject = async (project: Project) => {
+    try {
+      let session: StoredSession;
+      if (project.id === activeProjectId) {
+        session = { targets: targetStore.getState(), identities, activeIdentityId, settings, budget };
+      } else {
+        session = await loadSession(project.id, project.name);
       }
-      
-      // Small delay to let UI breathe
-      await new Promise(r => setTimeout(r, 200));
+      const archive = await exportProjectArchive(project, session);
+      saveAs(archive, `${project.name.replace(/[^\w.-]+/g, '_')}${ARCHIVE_EXTENSION}`);
+    } catch (e: unknown) {
+      window.alert(`Export failed: ${toSwapError(e).message}`);
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const { name, session } = await importProjectArchive(file);
+      const project = await importProject(name, session);
+      upsertProject(project);
+      await openProject(project.id);
+    } catch (e: unknown) {
+      if (e instanceof StorageQuotaError) reportSaveError(e);
+      else window.alert(`Import failed: ${toSwapError(e).message}`);
     }
+  };
 
-    setIsProcessingBatch(false);
+  const handleDeleteProject = async (project: Project) => {
+    if (!window.confirm(`Delete "${project.name}" and all of its targets and outputs?`)) return;
+    if (project.id === activeProjectId) {
+      const next = projects.find(p => p.id !== project.id) || await createProject('Project 1');
+      upsertProject(next);
+      if (!await openProject(next.id)) return;
+    }
+    await deleteProject(project.id);
+    setProjects(prev => prev.filter(p => p.id !== project.id));
   };
 
-  // Download All Function
-  const downloadAll = async () => {
-    const completed = targets.filter(t => t.status === 'completed' && t.processedUrl);
-    if (completed.length === 0) return;
+  const selectedTarget = targets.find(t => t.id === selectedTargetId);
+  const variantTarget = targets.find(t => t.id === variantTargetId);
+  const maskTarget = targets.find(t => t.id === maskTargetId);
+  const diagnosticsTarget = targets.find(t => t.id === diagnosticsTargetId);
+  // Unscored targets always sink to the end so reviewers start with the outputs that have a verdict
+  const filteredTargets = targets.filter(t => matchesFilters(t, filters));
+  const visibleTargets = sortBy === 'added' ? filteredTargets : [...filteredTargets].sort((a, b) => {
+    const sa = a.quality?.score, sb = b.quality?.score;
+    if (sa === undefined || sb === undefined) return (sa === undefined ? 1 : 0) - (sb === undefined ? 1 : 0);
+    return sortBy === 'score_asc' ? sa - sb : sb - sa;
+  });
+  const runnableIds = targets.filter(t => t.status === 'idle' && !queueState.queued.includes(t.id)).map(t => t.id);
+  const failedIds = targets.filter(t => t.status === 'failed').map(t => t.id);
+  const rejectedIds = targets.filter(t => t.status === 'completed' && reviewState(t) === 'rejected').map(t => t.id);
+  const reviewCounts = countByReview(targets);
+  const upgradeIds = targets.filter(t => t.status === 'completed' && isApprovedDraft(t)).map(t => t.id);
 
-    setIsZipping(true);
-    const zip = new JSZip();
-    const folder = zip.folder("swapped_faces");
+  const hasSources = identities.some(i => i.images.length > 0);
+
+  // Consent is checked before anything is queued; the runner re-checks per job
+  const runConsentIssues = [...blockedIdentities(targets.filter(t => runnableIds.includes(t.id)), identities, activeIdentityId, settings.intendedUsage).values()];
+  const passesConsent = (ids: string[]) => {
+    const blocked = blockedIdentities(targets.filter(t => ids.includes(t.id)), identities, activeIdentityId, settings.intendedUsage);
+    if (blocked.size === 0) return true;
+    window.alert(`Blocked until consent is recorded:\n${[...blocked.values()].map(s => `• ${s.message}`).join('\n')}`);
+    return false;
+  };
+
+  const projectUsage = summarize(usage);
+  const lastBatchUsage = lastBatchId ? summarize(usage.filter(r => r.batchId === lastBatchId)) : undefined;
+  const targetCosts = costByTarget(usage);
+  // Local providers are free, so there is nothing to estimate
+  const runEstimate = activeProvider.modelSelection
+    ? targets.filter(t => runnableIds.includes(t.id)).reduce((sum, t) => sum + estimateTargetCost(t, settings, identities, activeIdentityId), 0)
+    : 0;
+
+  const withinBudget = () => {
+    if (budget === undefined || projectUsage.cost < budget) return true;
+    window.alert(`This project has spent ${formatCost(projectUsage.cost)} of its ${formatCost(budget)} budget. Raise the budget to run more jobs.`);
+    return false;
+  };
+
+  // Each enqueue action is one batch in the usage totals
+  const enqueueBatch = (ids: string[]) => {
+    const batchId = Date.now().toString() + Math.random().toString();
+    ids.forEach(id => batchOf.current.set(id, batchId));
+    setLastBatchId(batchId);
+    queue.enqueue(ids);
+  };
+
+  const resumeQueue = () => {
+    if (!withinBudget()) return;
+    setBudgetNotice(null);
+    queue.resume();
+  };
+
+  const updateBudget = (next: number | undefined) => {
+    setBudget(next);
+    if (next === undefined || projectUsage.cost < next) setBudgetNotice(null);
+  };
+
+  const exportUsage = async () => {
+    const records = await loadUsage();
+    const names = Object.fromEntries(projects.map(p => [p.id, p.name]));
+    saveAs(new Blob([usageCsv(records, names)], { type: 'text/csv' }), `usage_${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  const runBatchProcessor = () => {
+    if (!hasSources || !passesConsent(runnableIds) || !withinBudget()) return;
+    enqueueBatch(runnableIds);
+  };
+
+  const retryFailed = () => {
+    if (!hasSources || !passesConsent(failedIds) || !withinBudget()) return;
+    failedIds.forEach(id => targetStore.dispatch({ type: 'reset', id }));
+    enqueueBatch(failedIds);
+  };
+
+  // At least one face stays selected; an empty selection would silently fall back to the primary face
+  const toggleTargetFace = (id: string, index: number) => {
+    const target = targetStore.getTarget(id);
+    if (!target?.analysis) return;
+    const current = resolveTargetFaces(target.analysis, target.selectedFaces);
+    const next = current.includes(index) ? current.filter(i => i !== index) : [...current, index].sort((a, b) => a - b);
+    if (next.length === 0) return;
+    targetStore.dispatch({ type: 'patch', id, patch: { selectedFaces: next } });
+  };
+
+  const assignIdentity = (id: string, identityId: string | undefined, faceIndex?: number) => {
+    const target = targetStore.getTarget(id);
+    if (!target) return;
+    if (faceIndex === undefined) {
+      targetStore.dispatch({ type: 'patch', id, patch: { identityId } });
+      return;
+    }
+    const faceIdentities = { ...target.faceIdentities };
+    if (identityId) faceIdentities[faceIndex] = identityId; else delete faceIdentities[faceIndex];
+    targetStore.dispatch({ type: 'patch', id, patch: { faceIdentities } });
+  };
+
+  const removeTarget = (id: string) => {
+    queue.remove(id);
+    targetStore.dispatch({ type: 'remove', id });
+    if (selectedTargetId === id) setSelectedTargetId(null);
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+  };
+
+  // Appends a new variant; the current preferred output stays until the user picks another
+  const rerollTarget = (id: string) => {
+    if (!hasSources || !passesConsent([id]) || !withinBudget()) return;
+    enqueueBatch([id]);
+  };
+
+  // Failed targets go back to idle first; completed ones (a failed re-roll) just get another variant
+  const retryTarget = (id: string) => {
+    if (targetStore.getTarget(id)?.status !== 'failed') return rerollTarget(id);
+    if (!hasSources || !passesConsent([id]) || !withinBudget()) return;
+    targetStore.dispatch({ type: 'reset', id });
+    enqueueBatch([id]);
+  };
+
+  // Rejected outputs get a fresh variant, which puts them back into pending review
+  const rerunRejected = () => {
+    if (!hasSources || !passesConsent(rejectedIds) || !withinBudget()) return;
+    enqueueBatch(rejectedIds);
+  };
+
+  // Processing overlay text; mirrors the tier and model the queue runner picks
+  const workingLabel = (target: ProcessedImage) => {
+    const targetSettings = effectiveSettings(settings, target.settingsOverride);
+    const tier = jobTier(target, targetSettings);
+    const verb = tier === 'draft' ? 'Drafting' : 'Generating';
+    return activeProvider.modelSelection ? `${verb} with ${modelLabel(settingsForTier(targetSettings, tier).swapModel)}...` : `${verb}...`;
+  };
+
+  // Analysis spinner text; names the model the analysis call runs on
+  const analyzingLabel = (model: string) =>
+    activeProvider.modelSelection ? `Analyzing with ${modelLabel(model)}...` : 'Analyzing...';
+
+  // Approved drafts re-run on the configured engine (see jobTier)
+  const upgradeDrafts = () => {
+    if (!hasSources || !passesConsent(upgradeIds) || !withinBudget()) return;
+    enqueueBatch(upgradeIds);
+  };
+
+  // Returns false when nothing was recorded (no output yet, or the rejection reason was cancelled)
+  const reviewTarget = (id: string, state: ReviewState) => {
+    const target = targetStore.getTarget(id);
+    if (!target) return false;
+    if (state === 'pending') return targetStore.dispatch({ type: 'review', id, review: undefined });
+    let reason: string | undefined;
+    if (state === 'rejected') {
+      reason = window.prompt('Why is this output rejected?', target.review?.reason || '')?.trim();
+      if (!reason) return false;
+    }
+    return targetStore.dispatch({ type: 'review', id, review: { state, reason, reviewedAt: Date.now() } });
+  };
 
-    completed.forEach((target, index) => {
-      if (target.processedUrl) {
-        const base64Data = target.processedUrl.split(',')[1];
-        folder?.file(`swap_${index + 1}.png`, base64Data, { base64: true });
+  const adjacentTargetId = (id: string, delta: number) => {
+    const index = visibleTargets.findIndex(t => t.id === id);
+    return visibleTargets[index < 0 ? 0 : index + delta]?.id;
+  };
+
+  // Triage shortcuts on the selected card. The review viewer handles its own keys while open.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (reviewTargetId || variantTargetId || maskTargetId || diagnosticsTargetId || isExportOpen) return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return;
+      const move = (delta: number) => {
+        const next = selectedTargetId ? adjacentTargetId(selectedTargetId, delta) : visibleTargets[0]?.id;
+        if (next) {
+          setSelectedTargetId(next);
+          document.getElementById(`target-${next}`)?.scrollIntoView({ block: 'nearest' });
+        }
+      };
+      switch (e.key) {
+        case 'j': move(1); return;
+        case 'k': move(-1); return;
+      }
+      if (!selectedTargetId) return;
+      switch (e.key) {
+        case 'a': if (reviewTarget(selectedTargetId, 'approved')) move(1); break;
+        case 'x': if (reviewTarget(selectedTargetId, 'rejected')) move(1); break;
+        case 'u': reviewTarget(selectedTargetId, 'pending'); break;
+        case 'r': if (targetStore.getTarget(selectedTargetId)?.status === 'completed') rerollTarget(selectedTargetId); break;
+        case 'Enter':
+          if (e.target instanceof HTMLButtonElement) return; // let focused buttons activate
+          setReviewTargetId(selectedTargetId);
+          break;
+        default: return;
       }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  const toggleChecked = (id: string) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
     });
+  };
+
+  const patchOverride = (id: string, patch: Partial<SwapSettings> | null) => {
+    const target = targetStore.getTarget(id);
+    if (!target) return;
+    const settingsOverride = patch ? { ...target.settingsOverride, ...patch } : undefined;
+    targetStore.dispatch({ type: 'patch', id, patch: { settingsOverride } });
+  };
 
-    const content = await zip.generateAsync({ type: "blob" });
-    saveAs(content, "gemini_architect_batch.zip");
-    setIsZipping(false);
+  const handleSavePreset = async (name: string) => {
+    const preset = createPreset(name, settings);
+    await savePreset(preset);
+    setPresets(await loadPresets());
+  };
+
+  const handleRenamePreset = async (preset: SettingsPreset, name: string) => {
+    await savePreset({ ...preset, name, updatedAt: Date.now() });
+    setPresets(await loadPresets());
+  };
+
+  const handleDeletePreset = async (preset: SettingsPreset) => {
+    await deletePreset(preset.id);
+    setPresets(await loadPresets());
+  };
+
+  // The preset's full settings become the override, so the targets keep them even if global settings change
+  const applyPresetToChecked = (preset: SettingsPreset) => {
+    checkedIds.forEach(id => targetStore.dispatch({ type: 'patch', id, patch: { settingsOverride: { ...preset.settings } } }));
+  };
+
+  // Download All Function
+  const exportContext = { identities, activeIdentityId, defaultQuality: settings.outputQuality };
+  const firstOutput = targets.find(t => t.processedUrl);
+  const exportPreview = firstOutput &&
+    `${renderFilename(exportOptions.filenameTemplate, filenameFields(firstOutput, targets.indexOf(firstOutput), exportContext))}${exportOptions.includeOriginals ? '_after' : ''}.${outputExtension(exportOptions.format)}`;
+
+  const updateExportOptions = (patch: Partial<ExportOptions>) => {
+    const next = { ...exportOptions, ...patch };
+    setExportOptions(next);
+    saveExportOptions(next).catch(err => console.warn("Failed to save export options", err));
+  };
+
+  // Exported outputs must be covered by their identities' consent for the project's intended use
+  const assertExportConsent = (list: ProcessedImage[]) =>
+    assertConsent([...new Set(list.filter(t => t.processedUrl).flatMap(t => identityIdsFor(t, exportContext)))], identities, settings.intendedUsage);
+
+  const downloadOutput = async (target: ProcessedImage) => {
+    try {
+      assertExportConsent([target]);
+      const blob = await renderOutput(target, exportOptions, exportContext);
+      const name = renderFilename(exportOptions.filenameTemplate, filenameFields(target, targets.indexOf(target), exportContext));
+      saveAs(blob, `${name}.${outputExtension(exportOptions.format)}`);
+    } catch (e: unknown) {
+      window.alert(`Download failed: ${toSwapError(e).message}`);
+    }
+  };
+
+  const downloadAll = async () => {
+    if (!targets.some(t => t.processedUrl)) return;
+
+    setIsZipping(true);
+    try {
+      assertExportConsent(targets);
+      const content = await buildExportZip(targets, exportOptions, exportContext);
+      saveAs(content, "gemini_architect_batch.zip");
+      setIsExportOpen(false);
+    } catch (e: unknown) {
+      window.alert(`Export failed: ${toSwapError(e).message}`);
+    } finally {
+      setIsZipping(false);
+    }
   };
 
   return (
@@ -206,57 +853,205 @@ function App() {
       <div className="w-80 border-r border-gray-800 flex flex-col bg-gray-900 z-10 shadow-2xl">
         <div className="p-4 border-b border-gray-800">
             <h1 className="text-xl font-bold bg-gradient-to-r from-blue-400 to-indigo-500 bg-clip-text text-transparent">Gemini Architect</h1>
-            <p className="text-xs text-gray-500 mt-1">Engine: Gemini 3 Pro + Flash</p>
+            <p className="text-xs text-gray-500 mt-1">
+              Engine: {activeProvider.label}{activeProvider.modelSelection ? ` · ${describeEngine(settings)}` : ''}
+            </p>
+            <div className="mt-3">
+              <ProjectSwitcher
+                projects={projects}
+                activeId={activeProjectId}
+                disabled={!isStorageLoaded}
+                onSwitch={openProject}
+                onCreate={handleCreateProject}
+                onRename={handleRenameProject}
+                onDuplicate={handleDuplicateProject}
+                onDelete={handleDeleteProject}
+                onExport={handleExportProject}
+                onImport={handleImportProject}
+              />
+            </div>
         </div>
 
         <div className="flex-1 overflow-y-auto p-4 space-y-6">
           <div>
-            <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Source Identity</h3>
+            <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Identity Library</h3>
+            <IdentityLibrary
+              identities={identities}
+              activeId={activeIdentityId}
+              onSelect={setActiveIdentityId}
+              onCreate={addIdentity}
+              onRename={(id, name) => updateIdentity(id, i => ({ ...i, name }))}
+              onDelete={deleteIdentity}
+            />
+          </div>
+
+          <div>
+            <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">
+              Source Identity{activeIdentity ? `: ${activeIdentity.name}` : ''}
+            </h3>
             <FileUploader 
               label="Upload Source" 
               onFileSelect={handleSourceSelect} 
-              currentImages={sourceFaces} 
+              currentImages={activeIdentity?.images || []} 
+              referenceChecks={activeIdentity?.referenceChecks}
+              failedChecks={activeIdentity?.images.map(image => failedReferences.has(image))}
+              checksBlocked={activeIdentity && isConsentBlocking(consentStatus(activeIdentity)) ? consentStatus(activeIdentity).message : undefined}
+              onRecheck={recheckReferences}
               statusMessage={autoRestoreMsg}
-              onClear={() => { setSourceFaces([]); setAnalysis(null); }}
+              onClear={() => activeIdentity && updateIdentity(activeIdentity.id, i => ({ ...i, images: [], referenceChecks: undefined, analysis: undefined }))}
               onRemoveSingle={removeSourceImage}
+              maxImages={MAX_REFERENCE_IMAGES}
               compact
             />
           </div>
 
+          {activeIdentity && (
+            <div>
+              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Consent</h3>
+              <ConsentEditor identity={activeIdentity} usage={settings.intendedUsage} onChange={consent => updateIdentity(activeIdentity.id, i => ({ ...i, consent }))} />
+            </div>
+          )}
+
           <div>
               <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Controls</h3>
-              <div className="space-y-0 divide-y divide-gray-800">
-                <Toggle label="Preserve Hair" checked={settings.preserveHair} onChange={v => setSettings(s => ({...s, preserveHair: v}))} />
-                <Toggle label="Match Skin Tone" checked={settings.matchSkinTone} onChange={v => setSettings(s => ({...s, matchSkinTone: v}))} />
-                <Toggle label="Match Lighting" checked={settings.matchLighting} onChange={v => setSettings(s => ({...s, matchLighting: v}))} />
-              </div>
-              <div className="mt-4">
-                <div className="flex justify-between text-xs mb-1 text-gray-400">
-                    <span>Skin Smoothness ({settings.skinSmoothness})</span>
-                </div>
-                <input 
-                    type="range" min="0" max="10" step="1" 
-                    value={settings.skinSmoothness} 
-                    onChange={(e) => setSettings(s => ({...s, skinSmoothness: parseInt(e.target.value)}))}
-                    className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer"
-                />
-              </div>
+              <label className="flex items-center justify-between gap-2 py-1 text-xs text-gray-400">
+                <span>Intended Use</span>
+                <select
+                  value={settings.intendedUsage}
+                  onChange={(e) => setSettings(s => ({ ...s, intendedUsage: e.target.value as ConsentUsage }))}
+                  className="bg-gray-800 border border-gray-700 rounded text-gray-200 px-1 py-0.5 max-w-[60%]"
+                  title="Swaps and exports are blocked unless every identity's consent allows this use"
+                >
+                  {CONSENT_USAGES.map(u => <option key={u.value} value={u.value}>{u.label}</option>)}
+                </select>
+              </label>
+              <SettingsControls settings={settings} onChange={patch => setSettings(s => ({ ...s, ...patch }))} showEngine={activeProvider.modelSelection} />
               <div className="mt-4">
                 <div className="flex justify-between text-xs mb-1 text-gray-400">
-                    <span>Output Quality ({settings.outputQuality}%)</span>
+                    <span>Parallel Jobs ({concurrency})</span>
                 </div>
                 <input 
-                    type="range" min="0" max="100" step="5" 
-                    value={settings.outputQuality} 
-                    onChange={(e) => setSettings(s => ({...s, outputQuality: parseInt(e.target.value)}))}
+                    type="range" min="1" max={MAX_BATCH_CONCURRENCY} step="1" 
+                    value={concurrency} 
+                    onChange={(e) => setConcurrency(parseInt(e.target.value))}
                     className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer"
                 />
               </div>
           </div>
 
+          <div>
+              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Presets</h3>
+              <PresetManager
+                presets={presets}
+                checkedCount={checkedIds.size}
+                onSave={handleSavePreset}
+                onLoad={(preset) => setSettings({ ...DEFAULT_SWAP_SETTINGS, ...preset.settings })}
+                onApplyToChecked={applyPresetToChecked}
+                onRename={handleRenamePreset}
+                onDelete={handleDeletePreset}
+              />
+          </div>
+
+          <div>
+              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Usage</h3>
+              <UsagePanel
+                project={projectUsage}
+                lastBatch={lastBatchUsage}
+                budget={budget}
+                onBudgetChange={updateBudget}
+                onExport={exportUsage}
+              />
+          </div>
+
+          {selectedTarget && (
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Review</h3>
+                <button onClick={() => setDiagnosticsTargetId(selectedTarget.id)} className="text-[10px] text-gray-400 hover:text-blue-400">
+                  Diagnostics{selectedTarget.failure ? ' (1 issue)' : ''}
+                </button>
+              </div>
+              <ReviewPanel
+                target={selectedTarget}
+                onReview={(state) => reviewTarget(selectedTarget.id, state)}
+                onRerun={() => rerollTarget(selectedTarget.id)}
+                onNotesChange={(notes) => targetStore.dispatch({ type: 'patch', id: selectedTarget.id, patch: { notes: notes || undefined } })}
+                canRerun={hasSources}
+              />
+            </div>
+          )}
+
+          {selectedTarget && (
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Edit Region</h3>
+                {selectedTarget.maskUrl && (
+                  <button
+                    onClick={() => targetStore.dispatch({ type: 'patch', id: selectedTarget.id, patch: { maskUrl: undefined } })}
+                    className="text-[10px] text-gray-400 hover:text-blue-400"
+                  >
+                    Use auto mask
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-400 mb-2">
+                {!effectiveSettings(settings, selectedTarget.settingsOverride).maskedComposite
+                  ? 'Face Region Only is off; the whole image may change.'
+                  : selectedTarget.maskUrl ? 'Custom mask.' : selectedTarget.analysis ? 'Auto mask from face box and jawline.' : 'Auto mask after analysis.'}
+              </p>
+              <Button
+                variant="secondary"
+                className="w-full"
+                onClick={() => setMaskTargetId(selectedTarget.id)}
+                disabled={selectedTarget.status === 'processing'}
+              >
+                Edit Mask…
+              </Button>
+            </div>
+          )}
+
+          {selectedTarget && (
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Target Overrides</h3>
+                {selectedTarget.settingsOverride && (
+                  <button onClick={() => patchOverride(selectedTarget.id, null)} className="text-[10px] text-gray-400 hover:text-blue-400">
+                    Reset to global
+                  </button>
+                )}
+              </div>
+              <SettingsControls
+                settings={effectiveSettings(settings, selectedTarget.settingsOverride)}
+                overridden={selectedTarget.settingsOverride || {}}
+                onChange={patch => patchOverride(selectedTarget.id, patch)}
+                showEngine={activeProvider.modelSelection}
+              />
+            </div>
+          )}
+
           <div className="mt-4">
-            <AnalysisPanel analysis={analysis} isLoading={isAnalyzing} />
+            <AnalysisPanel
+              analysis={activeIdentity?.analysis || null}
+              isLoading={!!activeIdentity && analyzingIdentities.has(activeIdentity.id)}
+              loadingMessage={analyzingLabel(settings.analysisModel)}
+              error={activeIdentity ? identityErrors[activeIdentity.id] : undefined}
+              onRetry={() => activeIdentity?.images[0] && analyzeIdentity(activeIdentity.id, activeIdentity.images[0])}
+            />
           </div>
+
+          {selectedTarget && (
+            <div className="mt-4">
+              <AnalysisPanel
+                title="Target Intelligence"
+                analysis={selectedTarget.analysis || null}
+                isLoading={analyzingTargets.has(selectedTarget.id)}
+                loadingMessage={analyzingLabel(effectiveSettings(settings, selectedTarget.settingsOverride).analysisModel)}
+                emptyMessage="No analysis yet. It runs when the target is added or processed."
+                error={selectedTarget.failure?.operation === 'analysis' ? selectedTarget.failure : undefined}
+                onRetry={() => preanalyzeTarget(selectedTarget.id)}
+              />
+            </div>
+          )}
         </div>
       </div>
 
@@ -270,14 +1065,49 @@ function App() {
             <p className="text-sm text-gray-400">Batch processing optimized for cost</p>
         </div>
         <div className="flex gap-3">
+             {targets.length > 0 && (
+                <>
+                  <select
+                    value={filters.status}
+                    onChange={(e) => setFilters(f => ({ ...f, status: e.target.value as TargetFilters['status'] }))}
+                    className="bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-200 px-2"
+                  >
+                    <option value="all">Status: All</option>
+                    <option value="idle">Status: Idle</option>
+                    <option value="processing">Status: Processing</option>
+                    <option value="completed">Status: Completed</option>
+                    <option value="failed">Status: Failed</option>
+                  </select>
+                  <select
+                    value={filters.review}
+                    onChange={(e) => setFilters(f => ({ ...f, review: e.target.value as TargetFilters['review'] }))}
+                    className="bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-200 px-2"
+                  >
+                    <option value="all">Review: All</option>
+                    <option value="pending">Review: Pending ({reviewCounts.pending})</option>
+                    <option value="approved">Review: Approved ({reviewCounts.approved})</option>
+                    <option value="rejected">Review: Rejected ({reviewCounts.rejected})</option>
+                  </select>
+                </>
+             )}
+             {targets.some(t => t.quality) && (
+                <select
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+                  className="bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-200 px-2"
+                >
+                  <option value="added">Sort: Added</option>
+                  <option value="score_asc">Sort: Lowest match</option>
+                  <option value="score_desc">Sort: Highest match</option>
+                </select>
+             )}
              {targets.some(t => t.status === 'completed') && (
                 <Button 
                   variant="secondary" 
-                  onClick={downloadAll}
-                  isLoading={isZipping}
+                  onClick={() => setIsExportOpen(true)}
                   className="bg-green-600 hover:bg-green-500 text-white"
                 >
-                  Download All ZIP
+                  Export…
                 </Button>
             )}
 
@@ -289,49 +1119,215 @@ function App() {
                       if(e.target.files) Array.from(e.target.files).forEach(handleTargetSelect);
                 }} />
             </div>
+            {failedIds.length > 0 && (
+                <Button variant="secondary" onClick={retryFailed} disabled={!hasSources}>
+                    Retry Failed ({failedIds.length})
+                </Button>
+            )}
+            {upgradeIds.length > 0 && (
+                <Button variant="secondary" onClick={upgradeDrafts} disabled={!hasSources}>
+                    Upgrade Approved Drafts ({upgradeIds.length})
+                </Button>
+            )}
+            {rejectedIds.length > 0 && (
+                <Button variant="secondary" onClick={rerunRejected} disabled={!hasSources}>
+                    Re-run Rejected ({rejectedIds.length})
+                </Button>
+            )}
+            {queueState.status === 'running' && (
+                <Button variant="secondary" onClick={queue.pause}>Pause</Button>
+            )}
+            {queueState.status === 'paused' && (
+                <Button variant="secondary" onClick={resumeQueue}>Resume</Button>
+            )}
+            {isProcessingBatch && (
+                <Button variant="danger" onClick={queue.cancel}>Cancel</Button>
+            )}
             <Button 
-                disabled={sourceFaces.length === 0 || targets.filter(t => t.status === 'idle').length === 0}
+                disabled={!hasSources || runnableIds.length === 0}
                 onClick={runBatchProcessor}
-                isLoading={isProcessingBatch}
             >
-                Run Batch ({targets.filter(t => t.status === 'idle').length})
+                {isProcessingBatch ? `Queue More (${runnableIds.length})` : `Run Batch (${runnableIds.length})`}
+                {runEstimate > 0 && <span className="ml-1 opacity-75" title="Estimated cost of one attempt per job">· ~{formatCost(runEstimate)}</span>}
             </Button>
         </div>
         </div>
 
+        {runConsentIssues.length > 0 && (
+            <div className="px-6 py-2 bg-yellow-900/30 border-b border-yellow-800 text-sm text-yellow-200 z-10">
+                Batch blocked until consent is recorded: {runConsentIssues.map(s => s.message).join('; ')}
+            </div>
+        )}
+
+        {budgetNotice && (
+            <div className="px-6 py-2 bg-yellow-900/30 border-b border-yellow-800 text-sm text-yellow-200 flex justify-between items-center z-10">
+                <span>{budgetNotice}</span>
+                <button onClick={() => setBudgetNotice(null)} className="text-yellow-300 hover:text-white px-2">×</button>
+            </div>
+        )}
+
+        {storageError && (
+            <div className="px-6 py-2 bg-red-900/40 border-b border-red-800 text-sm text-red-200 flex justify-between items-center z-10">
+                <span>{storageError}</span>
+                <button onClick={() => setStorageError(null)} className="text-red-300 hover:text-white px-2">×</button>
+            </div>
+        )}
+
         <div className="flex-1 overflow-y-auto p-6">
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {targets.map((target) => (
-                    <div key={target.id} className="relative group bg-gray-900 rounded-xl border border-gray-800 overflow-hidden shadow-lg">
-                        <div className="aspect-[4/5] relative">
-                            <img 
-                                src={target.processedUrl || target.originalUrl} 
-                                className="w-full h-full object-cover" 
-                                alt="Target"
-                            />
+                {visibleTargets.map((target) => (
+                    <div
+                        key={target.id}
+                        id={`target-${target.id}`}
+                        onClick={() => setSelectedTargetId(id => id === target.id ? null : target.id)}
+                        className={`relative group bg-gray-900 rounded-xl border overflow-hidden shadow-lg cursor-pointer ${selectedTargetId === target.id ? 'border-blue-500 ring-2 ring-blue-500/40' : 'border-gray-800'}`}
+                    >
+                        <div className="aspect-[4/5] relative" onDoubleClick={(e) => { e.stopPropagation(); setReviewTargetId(target.id); }}>
+                            <div className="absolute top-2 left-2 z-10 flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                                <input
+                                    type="checkbox"
+                                    checked={checkedIds.has(target.id)}
+                                    onChange={() => toggleChecked(target.id)}
+                                    className="w-4 h-4 accent-blue-500 cursor-pointer"
+                                    title="Select for bulk actions"
+                                />
+                                {target.settingsOverride && (
+                                    <span className="bg-indigo-600 text-white text-[10px] font-bold px-1.5 py-0.5 rounded">CUSTOM</span>
+                                )}
+                            </div>
+                            {target.status !== 'completed' && target.analysis && listFaces(target.analysis).length > 1 ? (
+                                <FaceBoxOverlay
+                                    imageUrl={target.originalUrl}
+                                    faces={listFaces(target.analysis)}
+                                    selected={resolveTargetFaces(target.analysis, target.selectedFaces)}
+                                    onToggle={target.status === 'processing' ? undefined : (index) => toggleTargetFace(target.id, index)}
+                                />
+                            ) : (
+                                <img 
+                                    src={target.processedUrl || target.originalUrl} 
+                                    className="w-full h-full object-cover" 
+                                    alt="Target"
+                                />
+                            )}
                             {target.status === 'processing' && (
                                 <div className="absolute inset-0 bg-black/60 backdrop-blur-sm flex flex-col items-center justify-center">
                                       <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mb-2"></div>
-                                      <span className="text-sm font-mono text-blue-400">Nano Banana Working...</span>
+                                      {queueState.waiting[target.id] ? (
+                                        <span className="text-sm font-mono text-yellow-400">
+                                          Retry #{queueState.waiting[target.id].attempt} ({queueState.waiting[target.id].reason})
+                                        </span>
+                                      ) : (
+                                        <span className="text-sm font-mono text-blue-400">
+                                          {queueState.status === 'paused'
+                                            ? 'Finishing before pause...'
+                                            : workingLabel(target)}
+                                        </span>
+                                      )}
                                 </div>
                             )}
-                            {target.status === 'completed' && (
+                            {target.status === 'idle' && queueState.queued.includes(target.id) && (
                                 <div className="absolute top-2 right-2">
-                                    <span className="bg-green-500 text-black text-xs font-bold px-2 py-1 rounded shadow-lg">DONE</span>
+                                    <span className="bg-gray-700 text-gray-200 text-xs font-bold px-2 py-1 rounded shadow-lg">QUEUED</span>
+                                </div>
+                            )}
+                            {target.status === 'completed' && (
+                                <div className="absolute top-2 right-2 flex flex-col items-end gap-1">
+                                    <span
+                                        className="bg-green-500 text-black text-xs font-bold px-2 py-1 rounded shadow-lg"
+                                        title={target.effectiveSettings ? describeSettings(target.effectiveSettings) : undefined}
+                                    >
+                                        DONE
+                                    </span>
+                                    {isDraftOutput(target) && (
+                                        <span className="bg-gray-200 text-gray-900 text-[10px] font-bold px-2 py-0.5 rounded shadow-lg" title="Cheap preview; approve it to upgrade">DRAFT</span>
+                                    )}
+                                    {target.review && (
+                                        <span
+                                            className={`text-[10px] font-bold px-2 py-0.5 rounded shadow-lg ${target.review.state === 'approved' ? 'bg-green-700 text-white' : 'bg-red-700 text-white'}`}
+                                            title={target.review.reason}
+                                        >
+                                            {target.review.state === 'approved' ? 'APPROVED' : 'REJECTED'}
+                                        </span>
+                                    )}
+                                    {target.quality && (
+                                        <span
+                                            className={`text-[10px] font-bold px-2 py-0.5 rounded shadow-lg ${target.quality.passed ? 'bg-gray-900/80 text-green-300' : 'bg-red-600 text-white'}`}
+                                            title={`Identity match, best of ${target.quality.attempts} attempt(s); threshold ${Math.round(target.quality.threshold * 100)}%`}
+                                        >
+                                            {target.quality.passed ? '' : 'LOW MATCH '}{Math.round(target.quality.score * 100)}%
+                                        </span>
+                                    )}
+                                    {target.scaleCheck && !target.scaleCheck.passed && (
+                                        <span className="bg-amber-500 text-black text-[10px] font-bold px-2 py-0.5 rounded shadow-lg" title={`Best of ${target.scaleCheck.attempts} attempts`}>
+                                            SCALE DRIFT {Number.isFinite(target.scaleCheck.drift) ? `${Math.round(target.scaleCheck.drift * 100)}%` : '?'}
+                                        </span>
+                                    )}
                                 </div>
                             )}
                              {target.status === 'failed' && (
-                                <div className="absolute inset-0 bg-red-900/90 flex items-center justify-center p-4">
+                                <div className="absolute inset-0 bg-red-900/90 flex flex-col items-center justify-center gap-2 p-4 text-center" onClick={(e) => e.stopPropagation()}>
+                                    {target.failure && (
+                                        <span className="text-[10px] font-bold uppercase tracking-wider text-red-200">{ERROR_KINDS[target.failure.kind].label}</span>
+                                    )}
                                     <span className="text-white text-xs">{target.error}</span>
+                                    {target.failure && <span className="text-red-200 text-[11px]">{target.failure.remedy}</span>}
+                                    <button onClick={() => setDiagnosticsTargetId(target.id)} className="text-xs text-white underline hover:text-red-100">Details</button>
                                 </div>
                             )}
                         </div>
+                        {identities.length > 1 && (
+                            <div className="px-3 pt-2 space-y-1 bg-gray-850 border-t border-gray-800" onClick={(e) => e.stopPropagation()}>
+                                {[undefined, ...(target.analysis && listFaces(target.analysis).length > 1 ? resolveTargetFaces(target.analysis, target.selectedFaces) : [])].map(face => {
+                                    const fallback = identities.find(i => i.id === (face === undefined ? activeIdentityId : identityForFace({ ...target, faceIdentities: undefined }, face, activeIdentityId)));
+                                    return (
+                                        <label key={face ?? 'target'} className="flex items-center gap-2 text-[10px] text-gray-400">
+                                            <span className="w-14 flex-shrink-0">{face === undefined ? 'Identity' : `Face #${face + 1}`}</span>
+                                            <select
+                                                value={(face === undefined ? target.identityId : target.faceIdentities?.[face]) ?? ''}
+                                                onChange={(e) => assignIdentity(target.id, e.target.value || undefined, face)}
+                                                disabled={target.status === 'processing'}
+                                                className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded text-gray-200 px-1 py-0.5"
+                                            >
+                                                <option value="">{face === undefined ? 'Active' : 'Same as target'} ({fallback?.name ?? 'none'})</option>
+                                                {identities.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+                                            </select>
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                        )}
                         <div className="p-3 flex justify-between items-center bg-gray-850 border-t border-gray-800">
                              {target.status === 'completed' && target.processedUrl ? (
-                                <a href={target.processedUrl} download={`swap_${target.id}.png`} className="text-blue-400 hover:text-blue-300 text-xs font-medium">Download</a>
+                                <div className="flex items-center gap-3" onClick={(e) => e.stopPropagation()}>
+                                    <button onClick={() => downloadOutput(target)} className="text-blue-400 hover:text-blue-300 text-xs font-medium">Download</button>
+                                    <button onClick={() => setReviewTargetId(target.id)} className="text-gray-300 hover:text-white text-xs font-medium" title="Before/after viewer (double-click image)">Compare</button>
+                                    {isApprovedDraft(target) ? (
+                                        <button onClick={() => rerollTarget(target.id)} disabled={!hasSources} className="text-green-300 hover:text-green-200 text-xs font-medium disabled:opacity-40">Upgrade</button>
+                                    ) : target.review?.state === 'rejected' ? (
+                                        <button onClick={() => rerollTarget(target.id)} disabled={!hasSources} className="text-red-300 hover:text-red-200 text-xs font-medium disabled:opacity-40" title={target.review.reason}>Re-run</button>
+                                    ) : (
+                                        <button onClick={() => rerollTarget(target.id)} disabled={!hasSources} className="text-gray-300 hover:text-white text-xs font-medium disabled:opacity-40">Re-roll</button>
+                                    )}
+                                    {(target.generations?.length || 0) > 0 && (
+                                        <button onClick={() => setVariantTargetId(target.id)} className="text-gray-300 hover:text-white text-xs font-medium">
+                                            Variants ({target.generations!.length})
+                                        </button>
+                                    )}
+                                    {target.error && (
+                                        <button onClick={() => setDiagnosticsTargetId(target.id)} className="text-[10px] text-red-400 hover:text-red-300 truncate max-w-[8rem]" title={target.error}>Re-roll failed</button>
+                                    )}
+                                </div>
                              ) : <span className="text-xs text-gray-500">{target.status}</span>}
+                             {target.analysis && listFaces(target.analysis).length > 1 && (
+                                <span className="text-[10px] text-gray-400">
+                                    {listFaces(target.analysis).length} faces · replacing {resolveTargetFaces(target.analysis, target.selectedFaces).map(i => `#${i + 1}`).join(', ')}
+                                </span>
+                             )}
+                             {targetCosts.has(target.id) && (
+                                <span className="text-[10px] text-gray-500" title="Spent on this target so far">{formatCost(targetCosts.get(target.id)!)}</span>
+                             )}
                             
-                            <button onClick={() => setTargets(prev => prev.filter(p => p.id !== target.id))} className="text-gray-500 hover:text-red-400">
+                            <button onClick={(e) => { e.stopPropagation(); removeTarget(target.id); }} className="text-gray-500 hover:text-red-400">
                                 ×
                             </button>
                         </div>
@@ -340,6 +1336,64 @@ function App() {
             </div>
         </div>
       </div>
+
+      {isExportOpen && (
+        <ExportDialog
+          options={exportOptions}
+          onChange={updateExportOptions}
+          preview={exportPreview}
+          outputCount={targets.filter(t => t.processedUrl && (!exportOptions.approvedOnly || reviewState(t) === 'approved')).length}
+          approvedCount={reviewCounts.approved}
+          targetCount={targets.length}
+          isExporting={isZipping}
+          onExport={downloadAll}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+
+      {reviewTargetId && visibleTargets.some(t => t.id === reviewTargetId) && (
+        <ReviewViewer
+          targets={visibleTargets}
+          targetId={reviewTargetId}
+          title={(t) => t.fileName || `Target ${t.sequence ?? ''}`.trim()}
+          onNavigate={setReviewTargetId}
+          onReview={(id, state) => reviewTarget(id, state)}
+          onClose={() => setReviewTargetId(null)}
+        />
+      )}
+
+      {diagnosticsTarget && (
+        <DiagnosticsDrawer
+          target={diagnosticsTarget}
+          calls={usage.filter(r => r.targetId === diagnosticsTarget.id)}
+          onRetry={diagnosticsTarget.error && diagnosticsTarget.status !== 'processing' && hasSources ? () => {
+            retryTarget(diagnosticsTarget.id);
+            setDiagnosticsTargetId(null);
+          } : undefined}
+          onClose={() => setDiagnosticsTargetId(null)}
+        />
+      )}
+
+      {maskTarget && (
+        <MaskEditor
+          target={maskTarget}
+          onSave={(maskUrl) => {
+            targetStore.dispatch({ type: 'patch', id: maskTarget.id, patch: { maskUrl } });
+            setMaskTargetId(null);
+          }}
+          onClose={() => setMaskTargetId(null)}
+        />
+      )}
+
+      {variantTarget && (
+        <VariantBrowser
+          target={variantTarget}
+          onSelect={(generationId) => targetStore.dispatch({ type: 'select_generation', id: variantTarget.id, generationId })}
+          onReroll={() => rerollTarget(variantTarget.id)}
+          onClose={() => setVariantTargetId(null)}
+          isRerolling={variantTarget.status === 'processing'}
+        />
+      )}
     </div>
   );
 }
@@ -1,12 +1,26 @@
 import React from 'react';
-import { FaceAnalysisResult } from '../types';
+import { FaceAnalysisResult, SwapFailure } from '../types';
+import { ERROR_KINDS } from '../constants';
 
 interface AnalysisPanelProps {
   analysis: FaceAnalysisResult | null;
   isLoading: boolean;
+  title?: string;
+  emptyMessage?: string;
+  loadingMessage?: string;
+  error?: SwapFailure; // last failed analysis, shown while there is no result
+  onRetry?: () => void;
 }
 
-export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis, isLoading }) => {
+export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
+  analysis,
+  isLoading,
+  title = 'Face Intelligence',
+  emptyMessage = 'No analysis data. Upload a source face.',
+  loadingMessage = 'Analyzing...',
+  error,
+  onRetry
+}) => {
   if (isLoading) {
     return (
       <div className="h-full w-full flex items-center justify-center p-8 bg-gray-850 rounded-xl border border-gray-700">
@@ -15,28 +29,46 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis, isLoadin
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
-            <p className="text-gray-400 text-sm animate-pulse">Gemini Flash Analyzing...</p>
+            <p className="text-gray-400 text-sm animate-pulse">{loadingMessage}</p>
         </div>
       </div>
     );
   }
 
+  if (!analysis && error) {
+    return (
+      <div className="w-full p-4 bg-red-900/20 rounded-xl border border-red-800 space-y-2 text-sm">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-bold uppercase tracking-wider text-red-300">Analysis failed · {ERROR_KINDS[error.kind].label}</span>
+          {onRetry && <button onClick={onRetry} className="text-xs text-gray-300 hover:text-white">Retry</button>}
+        </div>
+        <p className="text-gray-200">{error.message}</p>
+        <p className="text-xs text-gray-400">{error.remedy}</p>
+      </div>
+    );
+  }
+
   if (!analysis) {
     return (
       <div className="h-full w-full flex items-center justify-center p-8 bg-gray-900/50 rounded-xl border border-dashed border-gray-800 text-gray-500 text-sm">
-        No analysis data. Upload a source face.
+        {emptyMessage}
       </div>
     );
   }
 
-  const confidence = analysis.confidence ?? 0.85;
-  const lightingIntensity = analysis.lighting?.intensity ?? 0.5;
+  // No stand-ins for missing values: a made-up confidence reads as a measurement
+  const { confidence, warnings = [] } = analysis;
+  const lightingIntensity = analysis.lighting?.intensity;
 
   return (
     <div className="bg-gray-850 rounded-xl border border-gray-700 p-4 space-y-4 font-mono text-sm overflow-y-auto max-h-96">
       <div className="flex items-center justify-between border-b border-gray-700 pb-2">
-        <h3 className="text-blue-400 font-bold uppercase tracking-wider">Face Intelligence</h3>
-        <span className="text-xs bg-blue-900 text-blue-200 px-2 py-0.5 rounded">{(confidence * 100).toFixed(0)}% Conf</span>
+        <h3 className="text-blue-400 font-bold uppercase tracking-wider">{title}</h3>
+        {confidence != null ? (
+          <span className="text-xs bg-blue-900 text-blue-200 px-2 py-0.5 rounded">{(confidence * 100).toFixed(0)}% Conf</span>
+        ) : (
+          <span className="text-xs bg-gray-800 text-gray-400 px-2 py-0.5 rounded" title="The model did not report a confidence">Conf n/a</span>
+        )}
       </div>
 
       <div className="grid grid-cols-2 gap-4">
@@ -55,16 +87,36 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis, isLoadin
         <div className="bg-gray-800 p-2 rounded space-y-1">
             <div className="flex justify-between">
                 <span className="text-gray-400">Dir</span>
-                <span className="text-gray-200">{analysis.lighting?.direction || 'N/A'}</span>
+                <span className="text-gray-200">{analysis.lighting?.direction && analysis.lighting.direction !== 'unknown' ? analysis.lighting.direction : 'N/A'}</span>
             </div>
              <div className="flex justify-between items-center">
                 <span className="text-gray-400">Int</span>
-                <div className="w-20 bg-gray-700 h-1.5 rounded-full overflow-hidden">
-                    <div className="bg-yellow-500 h-full" style={{ width: `${Math.min(lightingIntensity * 100, 100)}%` }}></div>
-                </div>
+                {lightingIntensity != null ? (
+                  <div className="w-20 bg-gray-700 h-1.5 rounded-full overflow-hidden" title={lightingIntensity.toFixed(2)}>
+                      <div className="bg-yellow-500 h-full" style={{ width: `${Math.min(lightingIntensity * 100, 100)}%` }}></div>
+                  </div>
+                ) : <span className="text-gray-200">N/A</span>}
+            </div>
+            <div className="flex justify-between">
+                <span className="text-gray-400">Temp</span>
+                <span className="text-gray-200">{analysis.lighting?.color_temperature || 'N/A'}</span>
             </div>
         </div>
       </div>
+
+      <div className="flex justify-between">
+        <span className="text-xs text-gray-500">Face Scale</span>
+        <span className="text-gray-200">{analysis.face_scale_ratio != null ? analysis.face_scale_ratio.toFixed(3) : 'N/A'}</span>
+      </div>
+
+      {warnings.length > 0 && (
+        <details className="text-xs">
+          <summary className="text-yellow-400 cursor-pointer">{warnings.length} validation warning{warnings.length === 1 ? '' : 's'}</summary>
+          <ul className="mt-1 space-y-1 text-gray-400 list-disc pl-4">
+            {warnings.map((w, i) => <li key={i}>{w}</li>)}
+          </ul>
+        </details>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,73 @@
+import React from 'react';
+import { ConsentRecord, ConsentUsage, SourceIdentity } from '../types';
+import { CONSENT_USAGES } from '../constants';
+import { consentStatus } from '../services/consent';
+
+interface ConsentEditorProps {
+  identity: SourceIdentity;
+  onChange: (consent: ConsentRecord) => void;
+  usage?: ConsentUsage; // the project's intended use, checked against allowedUsages
+}
+
+const STATE_STYLES = {
+  valid: 'text-green-400',
+  expiring: 'text-yellow-400',
+  expired: 'text-red-400',
+  missing: 'text-red-400',
+  not_allowed: 'text-red-400',
+};
+
+export const ConsentEditor: React.FC<ConsentEditorProps> = ({ identity, onChange, usage }) => {
+  const consent: ConsentRecord = identity.consent || { subjectName: '', documentRef: '', allowedUsages: [], recordedAt: Date.now() };
+  const status = consentStatus(identity, usage);
+
+  const update = (patch: Partial<ConsentRecord>) => onChange({ ...consent, ...patch, recordedAt: Date.now() });
+
+  const toggleUsage = (usage: ConsentUsage) => update({
+    allowedUsages: consent.allowedUsages.includes(usage)
+      ? consent.allowedUsages.filter(u => u !== usage)
+      : [...consent.allowedUsages, usage],
+  });
+
+  const inputClass = "w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100";
+
+  return (
+    <div className="space-y-2">
+      <p className={`text-[11px] ${STATE_STYLES[status.state]}`}>{status.message}</p>
+      <input
+        value={consent.subjectName}
+        placeholder="Subject name"
+        onChange={(e) => update({ subjectName: e.target.value })}
+        className={inputClass}
+      />
+      <input
+        value={consent.documentRef}
+        placeholder="Release / document reference"
+        onChange={(e) => update({ documentRef: e.target.value })}
+        className={inputClass}
+      />
+      <div className="flex items-center gap-2">
+        <label className="text-xs text-gray-400 flex-shrink-0">Expires</label>
+        <input
+          type="date"
+          value={consent.expiresAt || ''}
+          onChange={(e) => update({ expiresAt: e.target.value || undefined })}
+          className={inputClass}
+        />
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1">
+        {CONSENT_USAGES.map(({ value, label }) => (
+          <label key={value} className="flex items-center gap-1 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={consent.allowedUsages.includes(value)}
+              onChange={() => toggleUsage(value)}
+              className="accent-blue-500"
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { ProcessedImage, RequestSummary, SwapFailure, UsageRecord } from '../types';
+import { ERROR_KINDS } from '../constants';
+import { modelLabel } from '../services/engine';
+import { formatCost } from '../services/usage';
+import { Button } from './Button';
+
+interface DiagnosticsDrawerProps {
+  target: ProcessedImage;
+  calls: UsageRecord[]; // this target's recorded model calls
+  onRetry?: () => void;
+  onClose: () => void;
+}
+
+const Field: React.FC<{ label: string; value?: React.ReactNode }> = ({ label, value }) =>
+  value === undefined || value === '' ? null : (
+    <div className="flex justify-between gap-4 text-xs">
+      <span className="text-gray-500 flex-shrink-0">{label}</span>
+      <span className="text-gray-200 text-right break-all">{value}</span>
+    </div>
+  );
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="space-y-1">
+    <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">{title}</h3>
+    {children}
+  </div>
+);
+
+const RequestFields: React.FC<{ request: RequestSummary }> = ({ request }) => (
+  <>
+    <Field label="Provider" value={request.provider} />
+    <Field label="Model" value={`${modelLabel(request.model)}${request.resolution ? ` ${request.resolution}` : ''}${request.draft ? ' (draft)' : ''}`} />
+    <Field label="Analysis model" value={modelLabel(request.analysisModel)} />
+    <Field label="Identities" value={request.identities.join(', ')} />
+    <Field label="Reference images" value={request.referenceImages} />
+    <Field label="Faces" value={request.faces.length ? request.faces.map(i => `#${i + 1}`).join(', ') : 'primary'} />
+    <Field label="Mask" value={request.mask} />
+  </>
+);
+
+const FailureSummary: React.FC<{ failure: SwapFailure }> = ({ failure }) => (
+  <div className="rounded-lg border border-red-800 bg-red-900/20 p-3 space-y-2">
+    <div className="flex items-center justify-between">
+      <span className="text-xs font-bold uppercase tracking-wider text-red-300">{ERROR_KINDS[failure.kind].label}</span>
+      <span className={`text-[10px] px-1.5 py-0.5 rounded ${failure.retryable ? 'bg-yellow-900 text-yellow-200' : 'bg-gray-800 text-gray-300'}`}>
+        {failure.retryable ? 'Retryable' : 'Not retryable'}
+      </span>
+    </div>
+    <p className="text-sm text-gray-100">{failure.message}</p>
+    <p className="text-xs text-gray-300">{failure.remedy}</p>
+    <p className="text-[11px] text-gray-400 font-mono break-all">{failure.detail}</p>
+    <div className="text-[10px] text-gray-500">
+      {new Date(failure.failedAt).toLocaleString()} · {failure.attempts} attempt{failure.attempts === 1 ? '' : 's'}
+      {failure.operation ? ` · failed during ${failure.operation}` : ''}
+    </div>
+  </div>
+);
+
+// Slide-over with everything known about the target's last failure and its model calls
+export const DiagnosticsDrawer: React.FC<DiagnosticsDrawerProps> = ({ target, calls, onRetry, onClose }) => {
+  const [copied, setCopied] = useState(false);
+  const { failure } = target;
+  const response = failure?.response;
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const copy = async () => {
+    const report = { target: { id: target.id, fileName: target.fileName, status: target.status }, failure, calls };
+    await navigator.clipboard.writeText(JSON.stringify(report, null, 2));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60" onClick={onClose}>
+      <div
+        className="absolute inset-y-0 right-0 w-[28rem] max-w-full bg-gray-900 border-l border-gray-800 shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-white">Diagnostics</h2>
+            <p className="text-xs text-gray-400 truncate">{target.fileName || target.id}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-xl px-2">×</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {failure ? <FailureSummary failure={failure} /> : (
+            <p className="text-sm text-gray-400">{target.error ? target.error : 'No failure recorded for this target.'}</p>
+          )}
+
+          {failure && (
+            <Section title="Request">
+              {failure.request ? <RequestFields request={failure.request} /> : (
+                <p className="text-xs text-gray-500">Failed before a swap request was sent.</p>
+              )}
+            </Section>
+          )}
+
+          {response && (
+            <Section title="Response">
+              <Field label="HTTP status" value={response.httpStatus} />
+              <Field label="Finish reason" value={response.finishReason} />
+              <Field label="Finish message" value={response.finishMessage} />
+              <Field label="Block reason" value={response.blockReason} />
+              <Field label="Block message" value={response.blockReasonMessage} />
+              <Field label="Model version" value={response.modelVersion} />
+              <Field label="Response id" value={response.responseId} />
+              {response.safetyRatings?.length ? (
+                <div className="pt-1 space-y-0.5">
+                  {response.safetyRatings.map((r, i) => (
+                    <div key={i} className={`flex justify-between text-[11px] ${r.blocked ? 'text-red-300' : 'text-gray-400'}`}>
+                      <span>{r.category}</span>
+                      <span>{r.probability}{r.blocked ? ' · blocked' : ''}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+              {response.text && (
+                <p className="text-xs text-gray-300 bg-gray-800 rounded p-2 whitespace-pre-wrap">“{response.text}”</p>
+              )}
+              <details className="pt-1">
+                <summary className="text-[11px] text-gray-500 cursor-pointer">Raw metadata</summary>
+                <pre className="mt-1 text-[10px] text-gray-400 bg-gray-950 rounded p-2 overflow-x-auto">{JSON.stringify(response, null, 2)}</pre>
+              </details>
+            </Section>
+          )}
+
+          <Section title={`Model calls (${calls.length})`}>
+            {calls.length === 0 && <p className="text-xs text-gray-500">No billed calls recorded.</p>}
+            {[...calls].reverse().map(call => (
+              <div key={call.id} className="flex justify-between gap-2 text-[11px] text-gray-400">
+                <span>{new Date(call.createdAt).toLocaleTimeString()} {call.kind} · {modelLabel(call.model)}</span>
+                <span className="text-right">
+                  {call.inputTokens}/{call.outputTokens} tok · {(call.latencyMs / 1000).toFixed(1)}s · {formatCost(call.cost)}
+                </span>
+              </div>
+            ))}
+          </Section>
+        </div>
+
+        <div className="p-4 border-t border-gray-800 flex justify-between gap-2">
+          <Button variant="ghost" onClick={copy}>{copied ? 'Copied' : 'Copy report'}</Button>
+          {onRetry && <Button onClick={onRetry}>Retry</Button>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useEffect } from 'react';
+import { ExportFormat, ExportOptions } from '../types';
+import { FILENAME_TOKENS } from '../services/exportService';
+import { Button } from './Button';
+import { Toggle } from './Toggle';
+
+interface ExportDialogProps {
+  options: ExportOptions;
+  onChange: (patch: Partial<ExportOptions>) => void;
+  preview?: string; // rendered name of the first exported file
+  outputCount: number; // outputs that will be written with the current options
+  approvedCount: number;
+  targetCount: number;
+  isExporting?: boolean;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'png', label: 'PNG (lossless)' },
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'webp', label: 'WebP' },
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  options,
+  onChange,
+  preview,
+  outputCount,
+  approvedCount,
+  targetCount,
+  isExporting,
+  onExport,
+  onClose
+}) => {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const selectClass = "w-full bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-200 px-2 py-1";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center" onClick={onClose}>
+      <div className="w-[28rem] max-w-[90vw] bg-gray-900 border border-gray-800 rounded-xl p-5 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h2 className="text-lg font-semibold text-white">Export Batch</h2>
+          <p className="text-xs text-gray-400">{outputCount} output(s) · manifest covers all {targetCount} target(s)</p>
+        </div>
+
+        <div>
+          <label className="text-xs text-gray-400">Filename template</label>
+          <input
+            value={options.filenameTemplate}
+            onChange={(e) => onChange({ filenameTemplate: e.target.value })}
+            className="w-full mt-1 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-sm text-gray-100 font-mono"
+          />
+          <div className="mt-1 flex flex-wrap gap-1">
+            {FILENAME_TOKENS.map(token => (
+              <button
+                key={token}
+                onClick={() => onChange({ filenameTemplate: `${options.filenameTemplate}{${token}}` })}
+                className="text-[10px] px-1.5 py-0.5 rounded bg-gray-800 text-gray-400 hover:text-blue-400 font-mono"
+              >
+                {`{${token}}`}
+              </button>
+            ))}
+          </div>
+          {preview && <p className="mt-1 text-[11px] text-gray-500 truncate">e.g. <span className="text-gray-300 font-mono">{preview}</span></p>}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-xs text-gray-400">Format</label>
+            <select value={options.format} onChange={(e) => onChange({ format: e.target.value as ExportFormat })} className={`${selectClass} mt-1`}>
+              {FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs text-gray-400">Manifest</label>
+            <select value={options.manifest} onChange={(e) => onChange({ manifest: e.target.value as ExportOptions['manifest'] })} className={`${selectClass} mt-1`}>
+              <option value="csv">CSV</option>
+              <option value="json">JSON</option>
+              <option value="none">None</option>
+            </select>
+          </div>
+        </div>
+        {options.format !== 'png' && (
+          <p className="text-[11px] text-gray-500">Encoded at each output's Output Quality setting.</p>
+        )}
+
+        <Toggle
+          label="Before/after pairs"
+          description="Include each original next to its output"
+          checked={options.includeOriginals}
+          onChange={v => onChange({ includeOriginals: v })}
+        />
+        <Toggle
+          label="Approved only"
+          description={`Export the ${approvedCount} approved output(s); the manifest still lists every target`}
+          checked={options.approvedOnly}
+          onChange={v => onChange({ approvedOnly: v })}
+        />
+        <Toggle
+          label="Visible watermark"
+          description="Label outputs as AI-edited. Provenance metadata is always embedded."
+          checked={options.watermark}
+          onChange={v => onChange({ watermark: v })}
+        />
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button onClick={onExport} isLoading={isExporting} disabled={outputCount === 0}>Download ZIP</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { DetectedFace } from '../types';
+
+interface FaceBoxOverlayProps {
+  imageUrl: string;
+  faces: DetectedFace[];
+  selected: number[];
+  onToggle?: (index: number) => void;
+}
+
+// Shows the whole image (no cropping) with numbered, clickable boxes over each detected face
+export const FaceBoxOverlay: React.FC<FaceBoxOverlayProps> = ({ imageUrl, faces, selected, onToggle }) => {
+  const [aspect, setAspect] = useState<number | null>(null);
+  // The card frame is 4:5; wider images fill the width, taller ones fill the height
+  const fillWidth = (aspect ?? 1) > 4 / 5;
+
+  return (
+    <div className="w-full h-full flex items-center justify-center bg-black">
+      <div
+        className="relative"
+        style={{
+          aspectRatio: aspect ? `${aspect}` : undefined,
+          width: fillWidth ? '100%' : 'auto',
+          height: fillWidth ? 'auto' : '100%',
+        }}
+      >
+        <img
+          src={imageUrl}
+          className="w-full h-full block"
+          alt="Target"
+          onLoad={(e) => setAspect(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)}
+        />
+        {aspect && faces.map((face, index) => {
+          const [ymin, xmin, ymax, xmax] = face.face_box;
+          const isSelected = selected.includes(index);
+          return (
+            <button
+              key={index}
+              onClick={(e) => { e.stopPropagation(); onToggle?.(index); }}
+              className={`absolute border-2 rounded-sm transition-colors ${isSelected ? 'border-blue-400 bg-blue-500/20' : 'border-white/60 border-dashed hover:border-white'}`}
+              style={{
+                top: `${ymin / 10}%`,
+                left: `${xmin / 10}%`,
+                height: `${(ymax - ymin) / 10}%`,
+                width: `${(xmax - xmin) / 10}%`,
+              }}
+              title={isSelected ? `Face ${index + 1} will be replaced` : `Click to replace face ${index + 1}`}
+            >
+              <span className={`absolute top-0 left-0 text-[10px] font-bold px-1 rounded ${isSelected ? 'bg-blue-500 text-white' : 'bg-black/70 text-gray-200'}`}>
+                {index + 1}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,6 @@
 import React, { useRef } from 'react';
+import { FaceAngle, ReferenceCheck } from '../types';
+import { ANGLE_LABELS, angleCoverage, describeCheck, ISSUE_LABELS } from '../services/referenceQuality';
 
 interface FileUploaderProps {
   label: string;
@@ -9,8 +11,17 @@ interface FileUploaderProps {
   onRemoveSingle?: (index: number) => void;
   compact?: boolean;
   statusMessage?: string | null;
+  maxImages?: number;
+  referenceChecks?: (ReferenceCheck | undefined)[]; // aligned with currentImages
+  failedChecks?: boolean[]; // aligned with currentImages; the check errored and can be retried
+  checksBlocked?: string; // why references can't be checked yet (no consent)
+  onRecheck?: () => void;
 }
 
+const WarningBadge: React.FC<{ check?: ReferenceCheck }> = ({ check }) => check?.issues.length ? (
+    <span className="absolute top-0.5 right-0.5 z-10 bg-yellow-500 text-black text-[9px] font-bold rounded-full w-4 h-4 flex items-center justify-center" title={describeCheck(check)}>!</span>
+) : null;
+
 export const FileUploader: React.FC<FileUploaderProps> = ({ 
   label, 
   onFileSelect, 
@@ -19,7 +30,12 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
   onClear,
   onRemoveSingle,
   compact = false,
-  statusMessage
+  statusMessage,
+  maxImages = 3,
+  referenceChecks = [],
+  failedChecks = [],
+  checksBlocked,
+  onRecheck
 }) => {
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -33,6 +49,9 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
 
   const hasImages = currentImages && currentImages.length > 0;
   const primaryImage = hasImages ? currentImages[0] : null;
+  const primaryCheck = referenceChecks[0];
+  const checked = currentImages.every((_, i) => referenceChecks[i]);
+  const coverage = angleCoverage(referenceChecks);
 
   return (
     <div className={`w-full ${compact ? 'h-auto' : 'h-64'}`}>
@@ -49,6 +68,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
             {/* Primary Image (Big) */}
             <div className="relative w-full h-40 rounded-xl overflow-hidden border border-blue-500/50 group bg-gray-900">
                 <img src={primaryImage!} alt="Primary" className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
+                <WarningBadge check={primaryCheck} />
                 
                 {statusMessage && (
                     <div className="absolute top-0 left-0 right-0 bg-blue-900/80 backdrop-blur-sm text-blue-100 text-[10px] font-medium py-1 text-center z-10">
@@ -57,7 +77,14 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
                 )}
                 
                 <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 to-transparent p-2 flex justify-between items-end">
-                    <span className="text-xs font-bold text-white px-1">Primary Face</span>
+                    <div className="px-1 min-w-0">
+                        <span className="text-xs font-bold text-white">Primary Face</span>
+                        {primaryCheck?.issues.length ? (
+                            <p className="text-[10px] text-yellow-300 truncate" title={describeCheck(primaryCheck)}>
+                                {primaryCheck.issues.map(issue => ISSUE_LABELS[issue]).join(' · ')}
+                            </p>
+                        ) : null}
+                    </div>
                     {onClear && (
                         <button onClick={(e) => { e.stopPropagation(); onClear(); }} className="text-xs bg-red-600/80 hover:bg-red-500 text-white px-2 py-1 rounded">
                             Reset All
@@ -71,6 +98,20 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
                 {currentImages.map((img, idx) => (
                     <div key={idx} className="relative w-16 h-16 flex-shrink-0 rounded-lg overflow-hidden border border-gray-700 group">
                         <img src={img} className="w-full h-full object-cover" alt={`Ref ${idx}`} />
+                        <WarningBadge check={referenceChecks[idx]} />
+                        {referenceChecks[idx] ? (
+                            <span className="absolute bottom-0 left-0 right-0 bg-black/70 text-[9px] text-center text-gray-200" title={describeCheck(referenceChecks[idx]!)}>
+                                {referenceChecks[idx]!.angle ? ANGLE_LABELS[referenceChecks[idx]!.angle!] : '?'}
+                            </span>
+                        ) : failedChecks[idx] ? (
+                            <span className="absolute bottom-0 left-0 right-0 bg-red-900/80 text-[9px] text-center text-red-200" title="The check could not be completed. Press Recheck to retry.">
+                                Check failed
+                            </span>
+                        ) : (
+                            <span className="absolute bottom-0 left-0 right-0 bg-black/70 text-[9px] text-center text-gray-200" title={checksBlocked}>
+                                {checksBlocked ? 'Not checked' : 'Checking…'}
+                            </span>
+                        )}
                         <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
                             {idx > 0 && onRemoveSingle && (
                                 <button onClick={() => onRemoveSingle(idx)} className="text-red-400 hover:text-white">
@@ -82,7 +123,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
                 ))}
                 
                 {/* Add Button */}
-                {currentImages.length < 3 && (
+                {currentImages.length < maxImages && (
                     <button 
                         onClick={() => inputRef.current?.click()}
                         className="w-16 h-16 flex-shrink-0 rounded-lg border-2 border-dashed border-gray-700 hover:border-blue-500 hover:bg-gray-800 flex flex-col items-center justify-center text-gray-500 hover:text-blue-400 transition-colors"
@@ -92,7 +133,28 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
                     </button>
                 )}
             </div>
-            <p className="text-[10px] text-gray-400 text-center">Tip: Add Front, Side, and 45° views for best accuracy.</p>
+            {/* Angle coverage */}
+            <div className="flex items-center gap-1">
+                {(Object.keys(ANGLE_LABELS) as FaceAngle[]).map(angle => (
+                    <span
+                        key={angle}
+                        className={`flex-1 text-center text-[10px] py-0.5 rounded ${coverage.counts[angle] ? 'bg-green-900/60 text-green-300' : 'bg-gray-800 text-gray-500'}`}
+                    >
+                        {ANGLE_LABELS[angle]}{coverage.counts[angle] > 1 ? ` ×${coverage.counts[angle]}` : ''}
+                    </span>
+                ))}
+                {onRecheck && (
+                    <button onClick={onRecheck} className="text-[10px] text-gray-400 hover:text-blue-400 px-1" title="Analyze every reference again">Recheck</button>
+                )}
+            </div>
+            {checksBlocked && (
+                <p className="text-[10px] text-red-300 text-center">{checksBlocked}; references are checked once it is recorded.</p>
+            )}
+            {checked && coverage.missing.length > 0 && (
+                <p className="text-[10px] text-gray-400 text-center">
+                    Missing: {coverage.missing.map(a => ANGLE_LABELS[a]).join(', ')}. Add these views for best accuracy.
+                </p>
+            )}
         </div>
       ) : (
         <div 
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { SourceIdentity } from '../types';
+import { consentStatus } from '../services/consent';
+
+interface IdentityLibraryProps {
+  identities: SourceIdentity[];
+  activeId?: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ConsentDot: React.FC<{ identity: SourceIdentity }> = ({ identity }) => {
+  const status = consentStatus(identity);
+  const color = status.state === 'valid' ? 'bg-green-500' : status.state === 'expiring' ? 'bg-yellow-500' : 'bg-red-500';
+  return <span className={`w-2 h-2 rounded-full flex-shrink-0 ${color}`} title={status.message} />;
+};
+
+export const IdentityLibrary: React.FC<IdentityLibraryProps> = ({
+  identities,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      {identities.map(identity => (
+        <div
+          key={identity.id}
+          onClick={() => onSelect(identity.id)}
+          className={`flex items-center gap-2 p-1.5 rounded-lg cursor-pointer border ${identity.id === activeId ? 'border-blue-500/60 bg-blue-900/20' : 'border-transparent hover:bg-gray-800'}`}
+        >
+          <div className="w-8 h-8 rounded-md overflow-hidden bg-gray-800 flex-shrink-0">
+            {identity.images[0] && <img src={identity.images[0]} className="w-full h-full object-cover" alt={identity.name} />}
+          </div>
+          {editingId === identity.id ? (
+            <input
+              autoFocus
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+              onClick={(e) => e.stopPropagation()}
+              className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-1 text-sm text-gray-100"
+            />
+          ) : (
+            <span
+              className="flex-1 min-w-0 truncate text-sm text-gray-200"
+              onDoubleClick={(e) => { e.stopPropagation(); setEditingId(identity.id); setDraftName(identity.name); }}
+              title="Double-click to rename"
+            >
+              {identity.name}
+            </span>
+          )}
+          <span className="text-[10px] text-gray-500">{identity.images.length} ref</span>
+          <ConsentDot identity={identity} />
+          <button
+            onClick={(e) => { e.stopPropagation(); onDelete(identity.id); }}
+            className="text-gray-500 hover:text-red-400 px-1"
+            title="Delete identity"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={onCreate}
+        className="w-full text-xs text-gray-400 hover:text-blue-400 border border-dashed border-gray-700 hover:border-blue-500 rounded-lg py-1.5"
+      >
+        + New Identity
+      </button>
+    </div>
+  );
+};
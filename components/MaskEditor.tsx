@@ -0,0 +1,197 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProcessedImage } from '../types';
+import { resolveTargetFaces } from '../services/faceMetrics';
+import { drawAutoMask } from '../services/masking';
+import { Button } from './Button';
+
+interface MaskEditorProps {
+  target: ProcessedImage;
+  onSave: (maskUrl: string | undefined) => void; // undefined = use the auto mask
+  onClose: () => void;
+}
+
+const MASK_COLOR = '#ef4444';
+
+// Paints straight onto a canvas at the target's pixel size; only alpha matters to the pipeline,
+// the color is just for display
+export const MaskEditor: React.FC<MaskEditorProps> = ({ target, onSave, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<'paint' | 'erase'>('paint');
+  const [brush, setBrush] = useState(4); // radius, % of the shorter side
+  const [isAuto, setIsAuto] = useState(!target.maskUrl);
+  const [isEmpty, setIsEmpty] = useState(false);
+  const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null);
+  const last = useRef<{ x: number; y: number } | null>(null);
+
+  const context = () => canvasRef.current?.getContext('2d') || null;
+
+  const drawAuto = () => {
+    const ctx = context();
+    if (!ctx || !size) return;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.clearRect(0, 0, size.width, size.height);
+    if (!target.analysis) return;
+    ctx.fillStyle = MASK_COLOR;
+    drawAutoMask(ctx, target.analysis, resolveTargetFaces(target.analysis, target.selectedFaces), size.width, size.height);
+  };
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = target.originalUrl;
+  }, [target.originalUrl]);
+
+  // Initial mask once the canvas has its size
+  useEffect(() => {
+    if (!size) return;
+    if (!target.maskUrl) { drawAuto(); return; }
+    const img = new Image();
+    img.onload = () => {
+      const ctx = context();
+      if (!ctx) return;
+      ctx.clearRect(0, 0, size.width, size.height);
+      ctx.drawImage(img, 0, 0, size.width, size.height);
+      // Recolor whatever was saved so coverage is shown consistently
+      ctx.globalCompositeOperation = 'source-in';
+      ctx.fillStyle = MASK_COLOR;
+      ctx.fillRect(0, 0, size.width, size.height);
+      ctx.globalCompositeOperation = 'source-over';
+    };
+    img.src = target.maskUrl;
+  }, [size]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'b') setTool('paint');
+      if (e.key === 'e') setTool('erase');
+      if (e.key === '[') setBrush(b => Math.max(0.5, b - 0.5));
+      if (e.key === ']') setBrush(b => Math.min(20, b + 0.5));
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const radius = size ? (brush / 100) * Math.min(size.width, size.height) : 0;
+
+  const toImage = (e: React.PointerEvent) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return { x: ((e.clientX - rect.left) / rect.width) * canvas.width, y: ((e.clientY - rect.top) / rect.height) * canvas.height };
+  };
+
+  const stroke = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const ctx = context();
+    if (!ctx) return;
+    ctx.globalCompositeOperation = tool === 'paint' ? 'source-over' : 'destination-out';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.fillStyle = MASK_COLOR;
+    ctx.lineCap = 'round';
+    ctx.lineWidth = radius * 2;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(to.x, to.y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalCompositeOperation = 'source-over';
+    setIsAuto(false);
+    setIsEmpty(false);
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const p = toImage(e);
+    last.current = p;
+    stroke(p, p);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    setCursor({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+    if (!last.current) return;
+    const p = toImage(e);
+    stroke(last.current, p);
+    last.current = p;
+  };
+
+  const hasCoverage = () => {
+    const canvas = canvasRef.current;
+    const ctx = context();
+    if (!canvas || !ctx) return false;
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 3; i < data.length; i += 4) if (data[i] > 0) return true;
+    return false;
+  };
+
+  const save = () => {
+    if (isAuto) { onSave(undefined); return; }
+    // An empty mask would silently turn every run into a copy of the original
+    if (!hasCoverage()) { setIsEmpty(true); return; }
+    onSave(canvasRef.current!.toDataURL('image/png'));
+  };
+
+  const displayScale = canvasRef.current && size ? canvasRef.current.getBoundingClientRect().width / size.width : 1;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 flex flex-col gap-3 max-w-full max-h-full">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Edit Region</h2>
+            <p className="text-xs text-gray-400">
+              {isAuto ? 'Auto mask from face box and jawline.' : 'Custom mask.'} Only the red area can change; everything else stays identical to the target.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => setTool('paint')} className={`px-2 py-1 rounded text-xs ${tool === 'paint' ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300'}`} title="Paint (B)">Paint</button>
+            <button onClick={() => setTool('erase')} className={`px-2 py-1 rounded text-xs ${tool === 'erase' ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300'}`} title="Erase (E)">Erase</button>
+            <label className="flex items-center gap-1 text-xs text-gray-400" title="Brush size ([ / ])">
+              Brush
+              <input type="range" min={0.5} max={20} step={0.5} value={brush} onChange={(e) => setBrush(parseFloat(e.target.value))} className="w-24 h-1 accent-blue-500" />
+            </label>
+            <button
+              onClick={() => { drawAuto(); setIsAuto(true); setIsEmpty(false); }}
+              disabled={!target.analysis}
+              className="px-2 py-1 rounded text-xs bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+              title={target.analysis ? undefined : 'Analyze the target first'}
+            >
+              Reset to Auto
+            </button>
+          </div>
+        </div>
+
+        <div className="relative self-center overflow-hidden" onPointerLeave={() => setCursor(null)}>
+          <img src={target.originalUrl} alt="Target" className="block max-w-[80vw] max-h-[70vh] select-none" draggable={false} />
+          {size && (
+            <canvas
+              ref={canvasRef}
+              width={size.width}
+              height={size.height}
+              className="absolute inset-0 w-full h-full opacity-50 cursor-none touch-none"
+              onPointerDown={onPointerDown}
+              onPointerMove={onPointerMove}
+              onPointerUp={() => { last.current = null; }}
+            />
+          )}
+          {cursor && (
+            <div
+              className="absolute rounded-full border border-white pointer-events-none -translate-x-1/2 -translate-y-1/2"
+              style={{ left: cursor.x, top: cursor.y, width: radius * 2 * displayScale, height: radius * 2 * displayScale }}
+            />
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-red-400">{isEmpty ? 'The mask is empty; paint the area that may change.' : ''}</span>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose}>Cancel</Button>
+            <Button onClick={save} disabled={!size}>Save Mask</Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { SettingsPreset } from '../types';
+
+interface PresetManagerProps {
+  presets: SettingsPreset[];
+  checkedCount: number;
+  onSave: (name: string) => void;
+  onLoad: (preset: SettingsPreset) => void;
+  onApplyToChecked: (preset: SettingsPreset) => void;
+  onRename: (preset: SettingsPreset, name: string) => void;
+  onDelete: (preset: SettingsPreset) => void;
+}
+
+export const PresetManager: React.FC<PresetManagerProps> = ({
+  presets,
+  checkedCount,
+  onSave,
+  onLoad,
+  onApplyToChecked,
+  onRename,
+  onDelete
+}) => {
+  const [selectedId, setSelectedId] = useState('');
+  const [nameDraft, setNameDraft] = useState<string | null>(null);
+  const [mode, setMode] = useState<'save' | 'rename'>('save');
+  const selected = presets.find(p => p.id === selectedId);
+
+  const commitName = () => {
+    const name = nameDraft?.trim();
+    if (name) {
+      if (mode === 'rename' && selected) onRename(selected, name);
+      else onSave(name);
+    }
+    setNameDraft(null);
+  };
+
+  const buttonClass = "text-[11px] px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 text-gray-300 disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={selectedId}
+        onChange={(e) => setSelectedId(e.target.value)}
+        className="w-full bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-200 px-2 py-1"
+      >
+        <option value="">{presets.length ? 'Choose a preset…' : 'No saved presets'}</option>
+        {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+
+      {nameDraft !== null ? (
+        <input
+          autoFocus
+          value={nameDraft}
+          placeholder="Preset name"
+          onChange={(e) => setNameDraft(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => { if (e.key === 'Enter') commitName(); if (e.key === 'Escape') setNameDraft(null); }}
+          className="w-full bg-gray-800 border border-blue-500 rounded px-2 py-1 text-sm text-gray-100"
+        />
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          <button className={buttonClass} onClick={() => { setMode('save'); setNameDraft(''); }}>Save current</button>
+          <button className={buttonClass} disabled={!selected} onClick={() => selected && onLoad(selected)}>Load</button>
+          <button className={buttonClass} disabled={!selected || checkedCount === 0} onClick={() => selected && onApplyToChecked(selected)}>
+            Apply to {checkedCount} selected
+          </button>
+          <button className={buttonClass} disabled={!selected} onClick={() => { setMode('rename'); setNameDraft(selected?.name || ''); }}>Rename</button>
+          <button
+            className={`${buttonClass} hover:text-red-400`}
+            disabled={!selected}
+            onClick={() => { if (selected) { onDelete(selected); setSelectedId(''); } }}
+          >
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Project } from '../types';
+
+interface ProjectSwitcherProps {
+  projects: Project[];
+  activeId?: string;
+  disabled?: boolean;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (project: Project, name: string) => void;
+  onDuplicate: (project: Project) => void;
+  onDelete: (project: Project) => void;
+  onExport: (project: Project) => void;
+  onImport: (file: File) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Active project header that expands into the full project list
+export const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  projects,
+  activeId,
+  disabled,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const active = projects.find(p => p.id === activeId);
+
+  const commitRename = () => {
+    const project = projects.find(p => p.id === editingId);
+    if (project && draftName.trim()) onRename(project, draftName.trim());
+    setEditingId(null);
+  };
+
+  const actionClass = "text-[10px] text-gray-500 hover:text-blue-400 disabled:opacity-40";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        disabled={disabled}
+        className="w-full flex items-center gap-2 p-1.5 rounded-lg border border-gray-700 hover:border-gray-600 bg-gray-800/60 text-left disabled:opacity-50"
+      >
+        <div className="w-8 h-8 rounded-md overflow-hidden bg-gray-700 flex-shrink-0">
+          {active?.thumbnail && <img src={active.thumbnail} className="w-full h-full object-cover" alt="" />}
+        </div>
+        <span className="flex-1 min-w-0 truncate text-sm text-gray-200">{active?.name || 'No project'}</span>
+        <span className="text-gray-500 text-xs">{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 mt-1 z-30 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl max-h-96 overflow-y-auto p-1 space-y-1">
+          {projects.map(project => (
+            <div
+              key={project.id}
+              onClick={() => { if (project.id !== activeId) onSwitch(project.id); setIsOpen(false); }}
+              className={`flex gap-2 p-1.5 rounded-lg cursor-pointer border ${project.id === activeId ? 'border-blue-500/60 bg-blue-900/20' : 'border-transparent hover:bg-gray-800'}`}
+            >
+              <div className="w-12 h-12 rounded-md overflow-hidden bg-gray-800 flex-shrink-0">
+                {project.thumbnail && <img src={project.thumbnail} className="w-full h-full object-cover" alt={project.name} />}
+              </div>
+              <div className="flex-1 min-w-0">
+                {editingId === project.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="w-full bg-gray-800 border border-gray-700 rounded px-1 text-sm text-gray-100"
+                  />
+                ) : (
+                  <div className="truncate text-sm text-gray-200">{project.name}</div>
+                )}
+                <div className="text-[10px] text-gray-500">
+                  {project.targetCount ?? 0} target(s) · {formatDate(project.updatedAt)}
+                </div>
+                <div className="flex gap-2 mt-0.5" onClick={(e) => e.stopPropagation()}>
+                  <button className={actionClass} onClick={() => { setEditingId(project.id); setDraftName(project.name); }}>Rename</button>
+                  <button className={actionClass} onClick={() => { onDuplicate(project); setIsOpen(false); }}>Duplicate</button>
+                  <button className={actionClass} onClick={() => onExport(project)}>Export</button>
+                  <button className={`${actionClass} hover:text-red-400`} onClick={() => onDelete(project)}>Delete</button>
+                </div>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => { onCreate(); setIsOpen(false); }}
+            className="w-full text-xs text-gray-400 hover:text-blue-400 border border-dashed border-gray-700 hover:border-blue-500 rounded-lg py-1.5"
+          >
+            + New Project
+          </button>
+          <label className="block w-full text-center text-xs text-gray-400 hover:text-blue-400 border border-dashed border-gray-700 hover:border-blue-500 rounded-lg py-1.5 cursor-pointer">
+            Import Archive…
+            <input
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) { onImport(file); setIsOpen(false); }
+              }}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { ProcessedImage, ReviewState } from '../types';
+import { reviewState } from '../services/review';
+import { isApprovedDraft } from '../services/engine';
+
+interface ReviewPanelProps {
+  target: ProcessedImage;
+  onReview: (state: ReviewState) => void;
+  onRerun: () => void;
+  onNotesChange: (notes: string) => void;
+  canRerun: boolean;
+}
+
+const STATE_LABELS: Record<ReviewState, { label: string; className: string }> = {
+  pending: { label: 'Pending review', className: 'text-gray-300' },
+  approved: { label: 'Approved', className: 'text-green-400' },
+  rejected: { label: 'Rejected', className: 'text-red-400' },
+};
+
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({ target, onReview, onRerun, onNotesChange, canRerun }) => {
+  const state = reviewState(target);
+  const busy = target.status === 'processing';
+
+  return (
+    <div className="space-y-2">
+      {state ? (
+        <>
+          <div className="flex items-center justify-between">
+            <span className={`text-sm font-medium ${STATE_LABELS[state].className}`}>{STATE_LABELS[state].label}</span>
+            {target.review && (
+              <span className="text-[10px] text-gray-500">{new Date(target.review.reviewedAt).toLocaleString()}</span>
+            )}
+          </div>
+          {target.review?.reason && <p className="text-xs text-red-300">“{target.review.reason}”</p>}
+          <div className="flex gap-1">
+            <button onClick={() => onReview('approved')} disabled={busy} className="flex-1 px-2 py-1 rounded text-xs bg-green-700 hover:bg-green-600 text-white disabled:opacity-40">Approve (A)</button>
+            <button onClick={() => onReview('rejected')} disabled={busy} className="flex-1 px-2 py-1 rounded text-xs bg-red-700 hover:bg-red-600 text-white disabled:opacity-40">Reject (X)</button>
+            {state !== 'pending' && (
+              <button onClick={() => onReview('pending')} disabled={busy} className="px-2 py-1 rounded text-xs bg-gray-800 hover:bg-gray-700 text-gray-300 disabled:opacity-40" title="Back to pending (U)">Undo</button>
+            )}
+          </div>
+          {isApprovedDraft(target) && (
+            <button onClick={onRerun} disabled={busy || !canRerun} className="w-full px-2 py-1 rounded text-xs bg-green-800 hover:bg-green-700 text-white disabled:opacity-40">
+              {busy ? 'Upgrading…' : 'Upgrade to Final (R)'}
+            </button>
+          )}
+          {state === 'rejected' && (
+            <button onClick={onRerun} disabled={busy || !canRerun} className="w-full px-2 py-1 rounded text-xs bg-gray-800 hover:bg-gray-700 text-gray-200 disabled:opacity-40">
+              {busy ? 'Re-running…' : 'Re-run (R)'}
+            </button>
+          )}
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">Nothing to review until this target has an output.</p>
+      )}
+      <textarea
+        value={target.notes || ''}
+        onChange={(e) => onNotesChange(e.target.value)}
+        placeholder="Notes"
+        rows={3}
+        className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100 resize-y"
+      />
+      <p className="text-[10px] text-gray-500">J/K next/previous · A approve · X reject · U undo · R re-run · Enter compare</p>
+    </div>
+  );
+};
@@ -0,0 +1,310 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ProcessedImage, ReviewState } from '../types';
+import { landmarkGeometry, listFaces } from '../services/faceMetrics';
+import { reviewState } from '../services/review';
+
+interface ReviewViewerProps {
+  targets: ProcessedImage[]; // navigation order
+  targetId: string;
+  title?: (target: ProcessedImage) => string;
+  onNavigate: (id: string) => void;
+  onReview?: (id: string, state: ReviewState) => boolean; // false when nothing was recorded
+  onClose: () => void;
+}
+
+type CompareMode = 'wipe' | 'toggle' | 'flicker';
+
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const FLICKER_MS = 450;
+const MAX_SCALE = 8;
+
+// Both images share one transform so pan/zoom stays in sync. The output is drawn in the original's
+// pixel frame; face_box and landmarks are normalized, so the overlay lines up with either.
+export const ReviewViewer: React.FC<ReviewViewerProps> = ({ targets, targetId, title, onNavigate, onReview, onClose }) => {
+  const index = targets.findIndex(t => t.id === targetId);
+  const target = targets[index];
+  const hasOutput = !!target?.processedUrl;
+
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [view, setView] = useState<View>({ scale: 1, x: 0, y: 0 });
+  const [mode, setMode] = useState<CompareMode>('wipe');
+  const [wipe, setWipe] = useState(50);
+  const [showAfter, setShowAfter] = useState(true);
+  const [showOverlay, setShowOverlay] = useState(false);
+  const drag = useRef<{ kind: 'pan' | 'wipe'; startX: number; startY: number; view: View } | null>(null);
+
+  const fitView = useCallback((imageSize = size): View | null => {
+    const viewport = viewportRef.current;
+    if (!viewport || !imageSize) return null;
+    const { clientWidth: vw, clientHeight: vh } = viewport;
+    const scale = Math.min(vw / imageSize.width, vh / imageSize.height);
+    return { scale, x: (vw - imageSize.width * scale) / 2, y: (vh - imageSize.height * scale) / 2 };
+  }, [size]);
+
+  const zoomAt = useCallback((nextScale: number, cx: number, cy: number) => {
+    setView(v => {
+      const fit = fitView();
+      const scale = Math.min(MAX_SCALE, Math.max((fit?.scale ?? 1) / 2, nextScale));
+      return { scale, x: cx - (cx - v.x) * (scale / v.scale), y: cy - (cy - v.y) * (scale / v.scale) };
+    });
+  }, [fitView]);
+
+  const zoomToCenter = (scale: number) => {
+    const viewport = viewportRef.current;
+    if (viewport) zoomAt(scale, viewport.clientWidth / 2, viewport.clientHeight / 2);
+  };
+
+  // 1 image pixel per device pixel
+  const actualSize = () => zoomToCenter(1 / (window.devicePixelRatio || 1));
+  const fit = () => { const v = fitView(); if (v) setView(v); };
+
+  // New target: wait for its original to load, then fit
+  useEffect(() => {
+    setSize(null);
+    setShowAfter(true);
+  }, [targetId]);
+
+  useEffect(() => {
+    if (mode !== 'flicker' || !hasOutput) return;
+    const timer = setInterval(() => setShowAfter(s => !s), FLICKER_MS);
+    return () => { clearInterval(timer); setShowAfter(true); };
+  }, [mode, hasOutput]);
+
+  // Non-passive so the page doesn't scroll while zooming
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      setView(v => {
+        const fitScale = fitView()?.scale ?? 1;
+        const scale = Math.min(MAX_SCALE, Math.max(fitScale / 2, v.scale * Math.exp(-e.deltaY * 0.0015)));
+        const cx = e.clientX - rect.left, cy = e.clientY - rect.top;
+        return { scale, x: cx - (cx - v.x) * (scale / v.scale), y: cy - (cy - v.y) * (scale / v.scale) };
+      });
+    };
+    viewport.addEventListener('wheel', onWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', onWheel);
+  }, [fitView]);
+
+  const go = useCallback((delta: number) => {
+    const next = targets[index + delta];
+    if (next) onNavigate(next.id);
+  }, [targets, index, onNavigate]);
+
+  // Verdicts move on to the next target for fast triage
+  const review = (state: ReviewState) => {
+    if (!onReview || !hasOutput || target.status === 'processing') return;
+    if (onReview(target.id, state) && state !== 'pending') go(1);
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      switch (e.key) {
+        case 'Escape': onClose(); break;
+        case 'ArrowLeft': go(-1); break;
+        case 'ArrowRight': go(1); break;
+        case ' ': e.preventDefault(); setMode('toggle'); setShowAfter(s => !s); break;
+        case 'w': setMode('wipe'); break;
+        case 't': setMode('toggle'); break;
+        case 'f': setMode(m => m === 'flicker' ? 'toggle' : 'flicker'); break;
+        case 'o': setShowOverlay(s => !s); break;
+        case 'a': review('approved'); break;
+        case 'x': review('rejected'); break;
+        case 'u': review('pending'); break;
+        case '1': actualSize(); break;
+        case '0': fit(); break;
+        default: return;
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  const wipeFromPointer = (clientX: number) => {
+    const rect = viewportRef.current!.getBoundingClientRect();
+    setWipe(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const onPointerDown = (e: React.PointerEvent, kind: 'pan' | 'wipe') => {
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    drag.current = { kind, startX: e.clientX, startY: e.clientY, view };
+    if (kind === 'wipe') wipeFromPointer(e.clientX);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d) return;
+    if (d.kind === 'wipe') wipeFromPointer(e.clientX);
+    else setView({ ...d.view, x: d.view.x + e.clientX - d.startX, y: d.view.y + e.clientY - d.startY });
+  };
+
+  const onPointerUp = () => { drag.current = null; };
+
+  if (!target) return null;
+
+  const layerStyle: React.CSSProperties | undefined = size ? {
+    width: size.width,
+    height: size.height,
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+    transformOrigin: '0 0',
+    imageRendering: view.scale >= 2 ? 'pixelated' : 'auto',
+  } : undefined;
+
+  const faces = target.analysis ? listFaces(target.analysis) : [];
+  const overlay = showOverlay && size && (
+    <>
+      <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1000 1000" preserveAspectRatio="none">
+        {faces.map((face, i) => {
+          const [ymin, xmin, ymax, xmax] = face.face_box;
+          const { jawline } = landmarkGeometry(face.landmarks);
+          return (
+            <g key={i}>
+              <rect x={xmin} y={ymin} width={xmax - xmin} height={ymax - ymin} fill="none" stroke="#60a5fa" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+              {jawline.length > 1 && (
+                <polyline points={jawline.map(([y, x]) => `${x},${y}`).join(' ')} fill="none" stroke="#facc15" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      {faces.flatMap((face, i) => landmarkGeometry(face.landmarks).points.map(([y, x], j) => (
+        <span
+          key={`${i}-${j}`}
+          className="absolute rounded-full bg-yellow-400 pointer-events-none"
+          style={{ left: `${x / 10}%`, top: `${y / 10}%`, width: 6 / view.scale, height: 6 / view.scale, transform: 'translate(-50%, -50%)' }}
+        />
+      )))}
+    </>
+  );
+
+  const state = reviewState(target);
+  const afterVisible = hasOutput && (mode === 'wipe' || showAfter);
+  const modeButton = (value: CompareMode, label: string, key: string) => (
+    <button
+      onClick={() => setMode(value)}
+      disabled={!hasOutput}
+      className={`px-2 py-1 rounded text-xs ${mode === value ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'} disabled:opacity-40`}
+      title={`${label} (${key})`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col">
+      <div className="flex items-center justify-between gap-4 px-4 py-2 border-b border-gray-800 bg-gray-900">
+        <div className="min-w-0">
+          <h2 className="text-sm font-semibold text-white truncate">{title ? title(target) : `Target ${index + 1}`}</h2>
+          <p className="text-[11px] text-gray-500">
+            {index + 1} / {targets.length} · ←/→ navigate · wheel zoom · drag pan{onReview && hasOutput ? ' · A approve · X reject · U undo' : ''}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          {modeButton('wipe', 'Wipe', 'W')}
+          {modeButton('toggle', showAfter ? 'After' : 'Before', 'Space')}
+          {modeButton('flicker', 'Flicker', 'F')}
+          <span className="w-px h-5 bg-gray-700 mx-1" />
+          <button
+            onClick={() => setShowOverlay(s => !s)}
+            disabled={faces.length === 0}
+            className={`px-2 py-1 rounded text-xs ${showOverlay ? 'bg-yellow-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'} disabled:opacity-40`}
+            title="Face box and landmarks (O)"
+          >
+            Overlay
+          </button>
+          <span className="w-px h-5 bg-gray-700 mx-1" />
+          <button onClick={fit} className="px-2 py-1 rounded text-xs bg-gray-800 text-gray-300 hover:bg-gray-700" title="Fit (0)">Fit</button>
+          <button onClick={actualSize} className="px-2 py-1 rounded text-xs bg-gray-800 text-gray-300 hover:bg-gray-700" title="1:1 pixels (1)">1:1</button>
+          <span className="text-[11px] text-gray-500 w-12 text-right">{Math.round(view.scale * (window.devicePixelRatio || 1) * 100)}%</span>
+        </div>
+        <div className="flex items-center gap-1">
+          {onReview && state && (
+            <>
+              <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded mr-1 ${state === 'approved' ? 'bg-green-700 text-white' : state === 'rejected' ? 'bg-red-700 text-white' : 'bg-gray-700 text-gray-200'}`} title={target.review?.reason}>
+                {state.toUpperCase()}
+              </span>
+              <button onClick={() => review('approved')} disabled={target.status === 'processing'} className="px-2 py-1 rounded text-xs bg-green-700 hover:bg-green-600 text-white disabled:opacity-40" title="Approve (A)">Approve</button>
+              <button onClick={() => review('rejected')} disabled={target.status === 'processing'} className="px-2 py-1 rounded text-xs bg-red-700 hover:bg-red-600 text-white disabled:opacity-40" title="Reject (X)">Reject</button>
+              <span className="w-px h-5 bg-gray-700 mx-1" />
+            </>
+          )}
+          <button onClick={() => go(-1)} disabled={index <= 0} className="px-2 py-1 rounded text-xs bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-40">←</button>
+          <button onClick={() => go(1)} disabled={index >= targets.length - 1} className="px-2 py-1 rounded text-xs bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-40">→</button>
+          <button onClick={onClose} className="px-2 py-1 rounded text-xs text-gray-400 hover:text-white">Close</button>
+        </div>
+      </div>
+
+      <div
+        ref={viewportRef}
+        className="flex-1 relative overflow-hidden select-none cursor-grab active:cursor-grabbing"
+        onPointerDown={(e) => onPointerDown(e, 'pan')}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onDoubleClick={(e) => {
+          const rect = viewportRef.current!.getBoundingClientRect();
+          const oneToOne = 1 / (window.devicePixelRatio || 1);
+          if (view.scale < oneToOne * 0.99) zoomAt(oneToOne, e.clientX - rect.left, e.clientY - rect.top);
+          else fit();
+        }}
+      >
+        <div className="absolute inset-0">
+          <div className="absolute top-0 left-0" style={layerStyle}>
+            <img
+              src={target.originalUrl}
+              className="w-full h-full block"
+              alt="Original"
+              draggable={false}
+              onLoad={(e) => {
+                const next = { width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight };
+                setSize(next);
+                const v = fitView(next);
+                if (v) setView(v);
+              }}
+            />
+            {overlay}
+          </div>
+        </div>
+
+        {hasOutput && (
+          <div
+            className="absolute inset-0"
+            style={{ clipPath: mode === 'wipe' ? `inset(0 0 0 ${wipe}%)` : undefined, visibility: afterVisible ? 'visible' : 'hidden' }}
+          >
+            <div className="absolute top-0 left-0" style={layerStyle}>
+              <img src={target.processedUrl} className="w-full h-full block" alt="Output" draggable={false} />
+              {overlay}
+            </div>
+          </div>
+        )}
+
+        {hasOutput && mode === 'wipe' && (
+          <div
+            className="absolute top-0 bottom-0 w-6 -ml-3 cursor-ew-resize flex justify-center"
+            style={{ left: `${wipe}%` }}
+            onPointerDown={(e) => onPointerDown(e, 'wipe')}
+          >
+            <div className="w-0.5 h-full bg-white/80 shadow" />
+            <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white text-gray-900 text-[10px] font-bold flex items-center justify-center">⇔</div>
+          </div>
+        )}
+
+        <div className="absolute top-2 left-2 text-[10px] font-bold px-1.5 py-0.5 rounded bg-black/70 text-gray-200 pointer-events-none">
+          {!hasOutput ? 'ORIGINAL · no output yet' : mode === 'wipe' ? 'BEFORE' : afterVisible ? 'AFTER' : 'BEFORE'}
+        </div>
+        {hasOutput && mode === 'wipe' && (
+          <div className="absolute top-2 right-2 text-[10px] font-bold px-1.5 py-0.5 rounded bg-black/70 text-gray-200 pointer-events-none">AFTER</div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React from 'react';
+import { Toggle } from './Toggle';
+import { ModelType, OutputResolution, SwapSettings } from '../types';
+import { ANALYSIS_MODELS, SWAP_MODELS } from '../constants';
+
+interface SettingsControlsProps {
+  settings: SwapSettings;
+  onChange: (patch: Partial<SwapSettings>) => void;
+  overridden?: Partial<SwapSettings>; // keys present here are marked as differing from global
+  showEngine?: boolean; // model pickers only make sense for providers that honor them
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, onChange }) => (
+  <div className="mt-4">
+    <div className="flex justify-between text-xs mb-1 text-gray-400">
+        <span>{label}</span>
+    </div>
+    <input
+        type="range" min={min} max={max} step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+    />
+  </div>
+);
+
+interface SelectProps<T extends string> {
+  label: string;
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+}
+
+const Select = <T extends string>({ label, value, options, onChange }: SelectProps<T>) => (
+  <label className="flex items-center justify-between gap-2 py-1 text-xs text-gray-400">
+    <span>{label}</span>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as T)}
+      className="bg-gray-800 border border-gray-700 rounded text-gray-200 px-1 py-0.5 max-w-[60%]"
+    >
+      {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+    </select>
+  </label>
+);
+
+export const SettingsControls: React.FC<SettingsControlsProps> = ({ settings, onChange, overridden, showEngine }) => {
+  const mark = (key: keyof SwapSettings, label: string) => overridden && key in overridden ? `${label} •` : label;
+  const resolutions = SWAP_MODELS.find(m => m.value === settings.swapModel)?.resolutions || [];
+
+  return (
+    <div>
+      {showEngine && (
+        <div className="pb-2 mb-2 border-b border-gray-800">
+          <Select<ModelType>
+            label={mark('swapModel', 'Swap Model')}
+            value={settings.swapModel}
+            options={SWAP_MODELS}
+            onChange={v => onChange({ swapModel: v })}
+          />
+          {resolutions.length > 1 && (
+            <Select<OutputResolution>
+              label={mark('resolution', 'Resolution')}
+              value={resolutions.includes(settings.resolution) ? settings.resolution : resolutions[resolutions.length - 1]}
+              options={resolutions.map(r => ({ value: r, label: r }))}
+              onChange={v => onChange({ resolution: v })}
+            />
+          )}
+          <Select<ModelType>
+            label={mark('analysisModel', 'Analysis Model')}
+            value={settings.analysisModel}
+            options={ANALYSIS_MODELS}
+            onChange={v => onChange({ analysisModel: v })}
+          />
+          <Toggle
+            label={mark('draftMode', 'Draft Mode')}
+            description="Cheap low-res drafts first; only approved drafts run on the swap model"
+            checked={settings.draftMode}
+            onChange={v => onChange({ draftMode: v })}
+          />
+        </div>
+      )}
+      <div className="space-y-0 divide-y divide-gray-800">
+        <Toggle label={mark('preserveHair', 'Preserve Hair')} checked={settings.preserveHair} onChange={v => onChange({ preserveHair: v })} />
+        <Toggle label={mark('matchSkinTone', 'Match Skin Tone')} checked={settings.matchSkinTone} onChange={v => onChange({ matchSkinTone: v })} />
+        <Toggle label={mark('matchLighting', 'Match Lighting')} checked={settings.matchLighting} onChange={v => onChange({ matchLighting: v })} />
+        <Toggle
+          label={mark('faceScaleLock', 'Lock Face Scale')}
+          description="Keep the target's measured face size"
+          checked={settings.faceScaleLock === 'fixed'}
+          onChange={v => onChange({ faceScaleLock: v ? 'fixed' : 'auto' })}
+        />
+        <Toggle
+          label={mark('maskedComposite', 'Face Region Only')}
+          description="Keep pixels outside the face and neck unchanged"
+          checked={settings.maskedComposite}
+          onChange={v => onChange({ maskedComposite: v })}
+        />
+        <Toggle
+          label={mark('colorMatch', 'Color Match')}
+          description="Grade the swapped skin to the target's neck"
+          checked={settings.colorMatch}
+          onChange={v => onChange({ colorMatch: v })}
+        />
+        {settings.maskedComposite && (
+          <Toggle
+            label={mark('seamlessBlend', 'Seamless Blend')}
+            description="Poisson-style blending at the mask edge"
+            checked={settings.seamlessBlend}
+            onChange={v => onChange({ seamlessBlend: v })}
+          />
+        )}
+      </div>
+      <Slider
+        label={mark('qualityThreshold', `Quality Threshold (${Math.round(settings.qualityThreshold * 100)}%)`)}
+        min={0} max={1} step={0.05}
+        value={settings.qualityThreshold}
+        onChange={v => onChange({ qualityThreshold: v })}
+      />
+      {settings.faceScaleLock === 'fixed' && (
+        <Slider
+          label={mark('faceScaleTolerance', `Scale Tolerance (±${Math.round(settings.faceScaleTolerance * 100)}%)`)}
+          min={0.05} max={0.5} step={0.05}
+          value={settings.faceScaleTolerance}
+          onChange={v => onChange({ faceScaleTolerance: v })}
+        />
+      )}
+      {settings.maskedComposite && (
+        <Slider
+          label={mark('maskFeather', `Mask Feather (${settings.maskFeather}%)`)}
+          min={0} max={5} step={0.5}
+          value={settings.maskFeather}
+          onChange={v => onChange({ maskFeather: v })}
+        />
+      )}
+      <Slider
+        label={mark('skinSmoothness', `Skin Smoothness (${settings.skinSmoothness})`)}
+        min={0} max={10} step={1}
+        value={settings.skinSmoothness}
+        onChange={v => onChange({ skinSmoothness: v })}
+      />
+      <Slider
+        label={mark('outputQuality', `Output Quality (${settings.outputQuality}%)`)}
+        min={0} max={100} step={5}
+        value={settings.outputQuality}
+        onChange={v => onChange({ outputQuality: v })}
+      />
+    </div>
+  );
+};
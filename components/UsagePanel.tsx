@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { formatCost, UsageSummary } from '../services/usage';
+
+interface UsagePanelProps {
+  project: UsageSummary;
+  lastBatch?: UsageSummary;
+  budget?: number;
+  onBudgetChange: (budget: number | undefined) => void;
+  onExport: () => void;
+}
+
+const formatTokens = (n: number) => n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+
+const Row: React.FC<{ label: string; summary: UsageSummary }> = ({ label, summary }) => (
+  <div className="flex justify-between text-xs">
+    <span className="text-gray-400">{label}</span>
+    <span className="text-gray-200" title={`${summary.calls} calls · ${formatTokens(summary.inputTokens)} in / ${formatTokens(summary.outputTokens)} out · ${summary.imagesOut} images`}>
+      {formatCost(summary.cost)}
+    </span>
+  </div>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ project, lastBatch, budget, onBudgetChange, onExport }) => {
+  // Edited as text so the field can be cleared and retyped without snapping back
+  const [draft, setDraft] = useState(budget?.toString() ?? '');
+  useEffect(() => setDraft(budget?.toString() ?? ''), [budget]);
+
+  const commit = () => {
+    const value = parseFloat(draft);
+    onBudgetChange(Number.isFinite(value) && value > 0 ? value : undefined);
+  };
+
+  const share = budget ? Math.min(1, project.cost / budget) : 0;
+
+  return (
+    <div className="space-y-2">
+      <Row label="Project" summary={project} />
+      {lastBatch && <Row label="Last batch" summary={lastBatch} />}
+      <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+        Budget (USD)
+        <input
+          type="number"
+          min={0}
+          step={1}
+          value={draft}
+          placeholder="No cap"
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => e.key === 'Enter' && commit()}
+          className="w-24 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100 text-right"
+        />
+      </label>
+      {budget !== undefined && (
+        <div className="h-1 bg-gray-800 rounded overflow-hidden" title={`${formatCost(project.cost)} of ${formatCost(budget)}`}>
+          <div className={`h-full ${share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-yellow-500' : 'bg-blue-500'}`} style={{ width: `${share * 100}%` }} />
+        </div>
+      )}
+      <button onClick={onExport} className="text-[10px] text-gray-400 hover:text-blue-400">Export usage CSV (all projects)</button>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useEffect } from 'react';
+import { ProcessedImage } from '../types';
+import { describeSettings } from '../services/presets';
+import { Button } from './Button';
+
+interface VariantBrowserProps {
+  target: ProcessedImage;
+  onSelect: (generationId: string) => void;
+  onReroll: () => void;
+  onClose: () => void;
+  isRerolling?: boolean;
+}
+
+// Original plus every generation side by side, so the best try can be picked
+export const VariantBrowser: React.FC<VariantBrowserProps> = ({ target, onSelect, onReroll, onClose, isRerolling }) => {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const generations = target.generations || [];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex flex-col" onClick={onClose}>
+      <div className="flex justify-between items-center p-4 border-b border-gray-800 bg-gray-900" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h2 className="text-lg font-semibold text-white">Variants</h2>
+          <p className="text-xs text-gray-400">{generations.length} generation(s) · click "Use" to pick the preferred output</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={onReroll} isLoading={isRerolling}>Re-roll</Button>
+          <Button variant="ghost" onClick={onClose}>Close</Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-x-auto overflow-y-hidden p-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex gap-4 h-full">
+          <figure className="flex-shrink-0 h-full flex flex-col w-[min(28rem,80vw)]">
+            <div className="flex-1 min-h-0 bg-gray-900 rounded-lg overflow-hidden border border-gray-800">
+              <img src={target.originalUrl} className="w-full h-full object-contain" alt="Original" />
+            </div>
+            <figcaption className="mt-2 text-xs text-gray-400">Original</figcaption>
+          </figure>
+
+          {generations.map((generation, index) => {
+            const isPreferred = generation.id === target.preferredGenerationId;
+            return (
+              <figure key={generation.id} className="flex-shrink-0 h-full flex flex-col w-[min(28rem,80vw)]">
+                <div className={`flex-1 min-h-0 bg-gray-900 rounded-lg overflow-hidden border-2 ${isPreferred ? 'border-green-500' : 'border-gray-800'}`}>
+                  <img src={generation.url} className="w-full h-full object-contain" alt={`Variant ${index + 1}`} />
+                </div>
+                <figcaption className="mt-2 text-xs text-gray-400 space-y-1">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-200 font-medium">
+                      #{index + 1}
+                      {generation.quality && ` · ${Math.round(generation.quality.score * 100)}% match`}
+                    </span>
+                    {isPreferred ? (
+                      <span className="text-green-400 font-bold">PREFERRED</span>
+                    ) : (
+                      <button onClick={() => onSelect(generation.id)} className="text-blue-400 hover:text-blue-300">Use</button>
+                    )}
+                  </div>
+                  <div>{generation.model} · {new Date(generation.createdAt).toLocaleString()}</div>
+                  <div className="text-gray-500">{describeSettings(generation.settings)}</div>
+                </figcaption>
+              </figure>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
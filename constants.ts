@@ -1,12 +1,158 @@
-import { SwapSettings } from './types';
+import { ConsentUsage, ErrorClass, ErrorKind, ExportOptions, ModelPricing, ModelType, OutputResolution, RetryPolicy, SwapSettings } from './types';
 
 export const DEFAULT_SWAP_SETTINGS: SwapSettings = {
   preserveHair: true,
   matchSkinTone: true,
   matchLighting: true,
   faceScaleLock: 'auto',
+  faceScaleTolerance: 0.15,
+  qualityThreshold: 0.7,
   skinSmoothness: 5,
   outputQuality: 90,
+  maskedComposite: true,
+  maskFeather: 1.5,
+  colorMatch: true,
+  seamlessBlend: true,
+  swapModel: ModelType.GEMINI_3_PRO_IMAGE,
+  resolution: '2K',
+  analysisModel: ModelType.GEMINI_FLASH_ANALYSIS,
+  draftMode: false,
+  intendedUsage: 'internal',
 };
 
-export const MOCK_IMAGE_PLACEHOLDER = "https://picsum.photos/400/400";
\ No newline at end of file
+// Resolutions each image model accepts; a single entry means the output size is fixed
+export const SWAP_MODELS: { value: ModelType; label: string; resolutions: OutputResolution[] }[] = [
+  { value: ModelType.GEMINI_3_PRO_IMAGE, label: 'Nano Banana Pro', resolutions: ['1K', '2K', '4K'] },
+  { value: ModelType.GEMINI_2_5_FLASH_IMAGE, label: 'Nano Banana', resolutions: ['1K'] },
+];
+
+export const ANALYSIS_MODELS: { value: ModelType; label: string }[] = [
+  { value: ModelType.GEMINI_FLASH_ANALYSIS, label: 'Gemini 3 Flash' },
+  { value: ModelType.GEMINI_3_PRO, label: 'Gemini 3 Pro' },
+];
+
+// USD list prices per 1M tokens. Update these when Google's price list changes; recorded costs keep
+// the price that applied at the time.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  [ModelType.GEMINI_3_PRO]: { input: 2, output: 12 },
+  [ModelType.GEMINI_FLASH_ANALYSIS]: { input: 0.5, output: 3 },
+  [ModelType.GEMINI_3_PRO_IMAGE]: { input: 2, output: 12, imageOutput: 120, imageTokens: { '1K': 1120, '2K': 1120, '4K': 2000 } },
+  [ModelType.GEMINI_2_5_FLASH_IMAGE]: { input: 0.3, output: 2.5, imageOutput: 30, imageTokens: { '1K': 1290 } },
+};
+
+// Typical token counts behind pre-run estimates; actual usage is recorded per call
+export const ESTIMATE_TOKENS = {
+  inputImage: 560,
+  swapPrompt: 800,
+  analysisPrompt: 300,
+  analysisOutput: 700,
+};
+
+// What draft mode runs instead of the configured engine
+export const DRAFT_ENGINE: Pick<SwapSettings, 'swapModel' | 'resolution'> = {
+  swapModel: ModelType.GEMINI_2_5_FLASH_IMAGE,
+  resolution: '1K',
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  filenameTemplate: '{name}_{identity}_{index}',
+  format: 'png',
+  includeOriginals: false,
+  manifest: 'csv',
+  watermark: false,
+  approvedOnly: false,
+};
+
+export const BATCH_QUEUE_DEFAULTS: { concurrency: number; retry: RetryPolicy } = {
+  concurrency: 3,
+  retry: {
+    baseDelayMs: 2000,
+    maxDelayMs: 60000,
+    maxRetries: { rate_limit: 5, server: 3, network: 3, fatal: 0 },
+  },
+};
+
+// `retry` picks the queue's retry budget (BATCH_QUEUE_DEFAULTS.retry); 'fatal' kinds fail on the first attempt
+export const ERROR_KINDS: Record<ErrorKind, { label: string; message: string; remedy: string; retry: ErrorClass }> = {
+  auth: {
+    label: 'Authentication', retry: 'fatal',
+    message: 'The API key is missing or was rejected.',
+    remedy: 'Set GEMINI_API_KEY in .env.local to a valid key with access to the selected models, then restart the dev server.',
+  },
+  rate_limit: {
+    label: 'Rate limit / quota', retry: 'rate_limit',
+    message: 'The API is rate limiting requests or the quota is used up.',
+    remedy: "Lower Parallel Jobs and retry later. If it persists, check the quota and billing of the key's Google Cloud project.",
+  },
+  server: {
+    label: 'Service outage', retry: 'server',
+    message: 'The model service failed or is overloaded.',
+    remedy: 'Usually temporary. Retry in a few minutes, or switch to another swap model.',
+  },
+  network: {
+    label: 'Network', retry: 'network',
+    message: 'The request did not reach the API or timed out.',
+    remedy: 'Check the connection (proxies, VPN, firewall) and retry.',
+  },
+  safety: {
+    label: 'Safety block', retry: 'fatal',
+    message: 'The model refused this request on safety grounds.',
+    remedy: 'Retrying the same images will be refused again. Use a different target or reference images, or remove minors, nudity or well-known people from them.',
+  },
+  bad_response: {
+    label: 'Bad response', retry: 'server',
+    message: 'The model returned no usable output.',
+    remedy: 'Retry. If it keeps happening, reduce the number of reference images or try another model.',
+  },
+  invalid_input: {
+    label: 'Invalid input', retry: 'fatal',
+    message: 'The request could not be built or was rejected as invalid.',
+    remedy: 'Check that the target and reference images open correctly and that every face has an identity with references.',
+  },
+  consent: {
+    label: 'Consent', retry: 'fatal',
+    message: 'A source identity has no valid consent for this use.',
+    remedy: 'Record or renew consent for the identity in the sidebar.',
+  },
+  unknown: {
+    label: 'Unknown', retry: 'fatal',
+    message: 'Something unexpected went wrong.',
+    remedy: 'Retry once. If it fails again, copy the diagnostics and report them.',
+  },
+};
+
+export const MAX_BATCH_CONCURRENCY = 6;
+
+export const MAX_REFERENCE_IMAGES = 5;
+
+// Reference image checks. Sharpness is the Laplacian variance of the face scaled to 160px, so it
+// doesn't depend on the upload size.
+export const REFERENCE_QUALITY = {
+  minFacePixels: 256,
+  minSharpness: 40,
+  frontMaxYaw: 20, // degrees; up to here a reference counts as front
+  profileMinYaw: 60, // from here it counts as profile; in between as 45°
+};
+
+export const CONSENT_USAGES: { value: ConsentUsage; label: string }[] = [
+  { value: 'advertising', label: 'Advertising' },
+  { value: 'editorial', label: 'Editorial' },
+  { value: 'social', label: 'Social media' },
+  { value: 'internal', label: 'Internal only' },
+];
+
+// Consent ending within this many days is flagged (but not blocked)
+export const CONSENT_EXPIRY_WARNING_DAYS = 14;
+
+// Generations allowed per target before a drifting 'fixed' scale result is kept and flagged
+export const SCALE_LOCK_MAX_ATTEMPTS = 3;
+
+// Generations allowed per target before a low identity score is kept and flagged
+export const QUALITY_MAX_ATTEMPTS = 2;
+
+export const MOCK_IMAGE_PLACEHOLDER = "https://picsum.photos/400/400";
+// Embedded in every exported output (metadata) and drawn by the optional visible watermark
+export const PROVENANCE_SOFTWARE = 'Gemini Architect';
+export const SYNTHETIC_MEDIA_DISCLOSURE =
+  'AI-generated content: this image was digitally altered with a generative model that replaced one or more faces. It does not depict a real, unedited scene.';
+export const WATERMARK_TEXT = 'AI-EDITED';
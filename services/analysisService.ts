@@ -0,0 +1,19 @@
+import { FaceAnalysisResult, UsageSink } from "../types";
+import { analyzeFace } from "./imageProvider";
+import { hashDataUrl } from "./imageUtils";
+
+// Keyed by analysis model and SHA-256 of the image bytes; holds the in-flight promise so parallel jobs share one call.
+// Usage is reported only by the call that actually hits the provider.
+const analysisCache = new Map<string, Promise<FaceAnalysisResult>>();
+
+export const analyzeCached = async (imageBase64: string, hash?: string, model?: string, onUsage?: UsageSink): Promise<FaceAnalysisResult> => {
+  const key = `${model ?? 'default'}:${hash ?? await hashDataUrl(imageBase64)}`;
+  const cached = analysisCache.get(key);
+  if (cached) return cached;
+
+  const pending = analyzeFace(imageBase64, model, onUsage);
+  analysisCache.set(key, pending);
+  // Failed analyses are not cached so the next attempt calls the provider again
+  pending.catch(() => analysisCache.delete(key));
+  return pending;
+};
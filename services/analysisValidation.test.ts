@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { NoFaceError, validateAnalysis } from './analysisValidation';
+import { SwapError } from './errors';
+
+const base = {
+  skin_tone: 'medium',
+  undertone: 'warm',
+  lighting: { direction: 'front', intensity: 0.6, color_temperature: '5500K' },
+  landmarks: {},
+  face_scale_ratio: 0.1,
+};
+
+const sent = { width: 800, height: 600 };
+
+describe('validateAnalysis coordinates', () => {
+  it('keeps declared 0-1000 boxes as they are', () => {
+    const result = validateAnalysis({ ...base, coordinate_system: 'normalized_1000', face_box: [100, 300, 400, 500] }, sent);
+    expect(result.face_box).toEqual([100, 300, 400, 500]);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('converts declared pixel boxes using the size of the image that was sent', () => {
+    const result = validateAnalysis({ ...base, coordinate_system: 'pixels', face_box: [150, 200, 300, 400] }, sent);
+    expect(result.face_box).toEqual([250, 250, 500, 500]);
+    expect(result.warnings?.some(w => w.includes('pixels of a 800×600 image'))).toBe(true);
+  });
+
+  it('converts landmarks with the same convention as the box', () => {
+    const result = validateAnalysis({
+      ...base, coordinate_system: 'pixels', face_box: [150, 200, 300, 400], landmarks: { nose_tip: [240, 300] },
+    }, sent);
+    expect(result.landmarks.nose_tip).toEqual([400, 375]);
+  });
+
+  it('rejects a pixel declaration whose box does not fit the image', () => {
+    const result = validateAnalysis({ ...base, coordinate_system: 'pixels', face_box: [100, 300, 700, 500] }, sent);
+    expect(result.face_box).toEqual([100, 300, 700, 500]);
+    expect(result.warnings?.some(w => w.includes('exceeds the 800×600 image'))).toBe(true);
+  });
+
+  it('warns instead of guessing when an undeclared box fits both readings', () => {
+    const result = validateAnalysis({ ...base, face_box: [100, 300, 400, 500] }, sent);
+    expect(result.face_box).toEqual([100, 300, 400, 500]);
+    expect(result.warnings?.some(w => w.includes('coordinate_system missing'))).toBe(true);
+  });
+
+  it('reads undeclared boxes beyond the image as 0-1000 without an ambiguity warning', () => {
+    const result = validateAnalysis({ ...base, face_box: [100, 300, 700, 900] }, sent);
+    expect(result.face_box).toEqual([100, 300, 700, 900]);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('scales 0-1 fractions', () => {
+    const result = validateAnalysis({ ...base, face_box: [0.1, 0.3, 0.4, 0.5] }, sent);
+    expect(result.face_box).toEqual([100, 300, 400, 500]);
+    expect(result.warnings?.some(w => w.includes('0-1 fractions'))).toBe(true);
+  });
+
+  it('treats a declared 0-1000 box of fractions as fractions', () => {
+    const result = validateAnalysis({ ...base, coordinate_system: 'normalized_1000', face_box: [0.1, 0.3, 0.4, 0.5] }, sent);
+    expect(result.face_box).toEqual([100, 300, 400, 500]);
+  });
+});
+
+describe('validateAnalysis boxes', () => {
+  it('reorders swapped corners and clamps to the image', () => {
+    const result = validateAnalysis({ ...base, coordinate_system: 'normalized_1000', face_box: [400, 500, -20, 300] });
+    expect(result.face_box).toEqual([0, 300, 400, 500]);
+    expect(result.warnings).toEqual(expect.arrayContaining([
+      expect.stringContaining('swapped'),
+      expect.stringContaining('clamped'),
+    ]));
+  });
+
+  it('falls back to the largest listed face when the primary box is unusable', () => {
+    const result = validateAnalysis({
+      ...base,
+      face_box: 'none',
+      faces: [{ face_box: [100, 600, 200, 700] }, { face_box: [100, 100, 500, 400] }],
+    });
+    expect(result.face_box).toEqual([100, 100, 500, 400]);
+    expect(result.faces?.map(f => f.face_box[1])).toEqual([100, 600]);
+  });
+
+  it('throws a bad_response error when no face box is usable', () => {
+    expect(() => validateAnalysis({ ...base, face_box: [1, 2] })).toThrowError(SwapError);
+    expect(() => validateAnalysis({ ...base })).toThrowError(expect.objectContaining({ kind: 'bad_response' }));
+  });
+
+  it('reports an explicit empty face list as no face rather than a bad response', () => {
+    expect(() => validateAnalysis({ ...base, face_box: [], faces: [] })).toThrowError(NoFaceError);
+    expect(() => validateAnalysis({ ...base, face_box: [1, 2], faces: [] })).not.toThrowError(NoFaceError);
+  });
+});
+
+describe('validateAnalysis fields', () => {
+  it('scales percentages and maps free-text lighting', () => {
+    const result = validateAnalysis({
+      ...base, face_box: [100, 300, 400, 500], confidence: 85,
+      lighting: { direction: 'soft light from upper left', intensity: 0.5, color_temperature: 4000 },
+    });
+    expect(result.confidence).toBeCloseTo(0.85);
+    expect(result.lighting.direction).toBe('top-left');
+    expect(result.lighting.color_temperature).toBe('4000K');
+  });
+
+  it('normalizes occlusions', () => {
+    const result = validateAnalysis({ ...base, face_box: [100, 300, 400, 500], occlusions: [' Sunglasses ', '', 3] });
+    expect(result.occlusions).toEqual(['sunglasses']);
+  });
+});
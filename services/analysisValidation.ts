@@ -0,0 +1,234 @@
+import { DetectedFace, FaceAnalysisResult, Landmarks, LightingDirection, Point } from "../types";
+import { SwapError } from "./errors";
+
+export const LIGHTING_DIRECTIONS: LightingDirection[] = ['front', 'left', 'right', 'top', 'bottom', 'top-left', 'top-right', 'back', 'diffuse'];
+
+// Free-text directions models tend to return, checked in order; the first match wins, so a stated
+// direction beats a quality word like "soft"
+const DIRECTION_WORDS: [RegExp, LightingDirection][] = [
+  [/\b(back|rim|behind|silhouette)/, 'back'],
+  [/\b(top|upper|above|overhead)\b.*\bleft|\bleft\b.*\b(top|upper|above)/, 'top-left'],
+  [/\b(top|upper|above|overhead)\b.*\bright|\bright\b.*\b(top|upper|above)/, 'top-right'],
+  [/\b(top|above|overhead)/, 'top'],
+  [/\b(bottom|below|under)/, 'bottom'],
+  [/\bleft/, 'left'],
+  [/\bright/, 'right'],
+  [/\b(front|frontal|direct|on-axis)/, 'front'],
+  [/\b(diffuse|even|flat|soft|ambient|overcast|uniform)/, 'diffuse'],
+];
+
+// How coordinates were given. The prompt asks for 0-1000 and for a `coordinate_system` saying so; models
+// sometimes answer in 0-1 fractions or in pixels of the image they were sent.
+type Convention = 'normalized' | 'fraction' | 'pixel';
+
+export const COORDINATE_SYSTEMS = ['normalized_1000', 'fraction', 'pixels'] as const;
+
+export interface AnalysisContext {
+  width?: number; // size of the image the model saw, to convert pixel coordinates
+  height?: number;
+}
+
+const MAX = 1000;
+
+// A well-formed response saying the image has no face. Not worth retrying, unlike a malformed one.
+export class NoFaceError extends SwapError {
+  constructor() {
+    super('invalid_input', "No face found in the image", { operation: 'analysis' });
+    this.name = 'NoFaceError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const finite = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const rawBoxes = (raw: Record<string, unknown>): number[][] =>
+  [raw.face_box, ...(Array.isArray(raw.faces) ? raw.faces.map(f => isObject(f) ? f.face_box : undefined) : [])]
+    .filter((b): b is number[] => Array.isArray(b) && b.length === 4 && b.every(finite));
+
+const declaredConvention = (value: unknown): Convention | undefined => {
+  const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (/pixel|\bpx\b/.test(text)) return 'pixel';
+  if (/fraction|unit|^0(\.0)? ?- ?1(\.0)?$/.test(text)) return 'fraction';
+  if (/1000|normali[sz]ed/.test(text)) return 'normalized';
+  return undefined;
+};
+
+// The declared system is used when the boxes are consistent with it. Without one, coordinates are read as
+// 0-1000 unless they are all 0-1; pixels are never guessed, since boxes that fit the image read both ways.
+const detectConvention = (raw: Record<string, unknown>, context: AnalysisContext, warn: (message: string) => void): Convention => {
+  const boxes = rawBoxes(raw);
+  const values = boxes.flat();
+  const isFraction = values.length > 0 && values.every(v => v >= 0 && v <= 1);
+  const fitsPixels = !!context.width && !!context.height
+    && boxes.every(([y0, x0, y1, x1]) => Math.max(y0, y1) <= context.height! && Math.max(x0, x1) <= context.width!);
+  const declared = declaredConvention(raw.coordinate_system);
+
+  if (declared === 'pixel') {
+    if (fitsPixels) return 'pixel';
+    warn(context.width && context.height
+      ? `coordinate_system said pixels, but face_box exceeds the ${context.width}×${context.height} image; read as ${isFraction ? '0-1 fractions' : '0-1000'}.`
+      : 'coordinate_system said pixels, but the image size is unknown; read as 0-1000.');
+  } else if (declared === 'fraction') {
+    if (isFraction) return 'fraction';
+    warn('coordinate_system said 0-1 fractions, but face_box exceeds 1; read as 0-1000.');
+    return 'normalized';
+  } else if (declared === 'normalized') {
+    if (!isFraction) return 'normalized';
+    warn('coordinate_system said 0-1000, but every face_box value is 0-1; read as fractions.');
+  } else if (raw.coordinate_system !== undefined) {
+    warn(`coordinate_system ${JSON.stringify(raw.coordinate_system)} not recognized.`);
+  } else if (!isFraction && fitsPixels) {
+    warn('coordinate_system missing; face_box fits both pixel and 0-1000 readings, read as 0-1000.');
+  }
+  return isFraction ? 'fraction' : 'normalized';
+};
+
+// Validates one response. Bad fields are normalized where the intent is clear and dropped otherwise;
+// every change is recorded in `warnings`. Throws when no usable face box is left.
+export const validateAnalysis = (raw: unknown, context: AnalysisContext = {}): FaceAnalysisResult => {
+  if (!isObject(raw)) throw new SwapError('bad_response', "Analysis is not a JSON object", { operation: 'analysis' });
+  const emptyBox = raw.face_box === undefined || raw.face_box === null || (Array.isArray(raw.face_box) && raw.face_box.length === 0);
+  if (Array.isArray(raw.faces) && raw.faces.length === 0 && emptyBox) throw new NoFaceError();
+  const warnings: string[] = [];
+  const warn = (message: string) => { if (!warnings.includes(message)) warnings.push(message); };
+
+  const convention = detectConvention(raw, context, warn);
+  if (convention === 'fraction') warn('Coordinates were 0-1 fractions; scaled to 0-1000.');
+  if (convention === 'pixel') warn(`Coordinates were pixels of a ${context.width}×${context.height} image; normalized to 0-1000.`);
+  // [y, x] in the response's convention to 0-1000
+  const toNormalized = (y: number, x: number): Point => {
+    if (convention === 'fraction') return [y * MAX, x * MAX];
+    if (convention === 'pixel') return [(y / context.height!) * MAX, (x / context.width!) * MAX];
+    return [y, x];
+  };
+
+  const box = (value: unknown, label: string): number[] | null => {
+    if (!Array.isArray(value) || value.length !== 4 || !value.every(finite)) {
+      if (value !== undefined) warn(`${label}: face_box is not four numbers; dropped.`);
+      return null;
+    }
+    let [y0, x0] = toNormalized(value[0], value[1]);
+    let [y1, x1] = toNormalized(value[2], value[3]);
+    if (y0 > y1 || x0 > x1) {
+      warn(`${label}: face_box corners were swapped; reordered.`);
+      [y0, y1] = [Math.min(y0, y1), Math.max(y0, y1)];
+      [x0, x1] = [Math.min(x0, x1), Math.max(x0, x1)];
+    }
+    const clamped = [clamp(y0, 0, MAX), clamp(x0, 0, MAX), clamp(y1, 0, MAX), clamp(x1, 0, MAX)];
+    if (clamped.some((v, i) => Math.abs(v - [y0, x0, y1, x1][i]) > 1)) warn(`${label}: face_box extended past the image; clamped.`);
+    if (clamped[2] - clamped[0] < 1 || clamped[3] - clamped[1] < 1) {
+      warn(`${label}: face_box has no area; dropped.`);
+      return null;
+    }
+    return clamped.map(v => Math.round(v * 10) / 10);
+  };
+
+  const point = (value: unknown): Point | null => {
+    if (!Array.isArray(value) || value.length < 2 || !finite(value[0]) || !finite(value[1])) return null;
+    const [y, x] = toNormalized(value[0], value[1]);
+    return y >= 0 && y <= MAX && x >= 0 && x <= MAX ? [y, x] : null;
+  };
+
+  const landmarks = (value: unknown, label: string): Landmarks => {
+    if (!isObject(value)) return {};
+    const result: Landmarks = {};
+    for (const name of ['left_eye', 'right_eye', 'nose_tip', 'mouth_center'] as const) {
+      if (value[name] === undefined) continue;
+      const p = point(value[name]);
+      if (p) result[name] = p; else warn(`${label}: ${name} is malformed or outside the image; dropped.`);
+    }
+    if (Array.isArray(value.jawline)) {
+      const jaw = value.jawline.map(point).filter((p): p is Point => !!p);
+      if (jaw.length < value.jawline.length) warn(`${label}: ${value.jawline.length - jaw.length} jawline point(s) dropped.`);
+      if (jaw.length) result.jawline = jaw.sort((a, b) => a[1] - b[1]);
+    }
+    return result;
+  };
+
+  // Model confidences arrive as 0-1 or as percentages
+  const unit = (value: unknown, label: string): number | undefined => {
+    if (value === undefined || value === null) return undefined;
+    if (!finite(value) || value < 0 || value > 100) {
+      warn(`${label} ${JSON.stringify(value)} is out of range; dropped.`);
+      return undefined;
+    }
+    if (value > 1) {
+      warn(`${label} was a percentage; scaled to 0-1.`);
+      return value / 100;
+    }
+    return value;
+  };
+
+  const face = (value: unknown, index: number): DetectedFace | null => {
+    const label = `Face ${index + 1}`;
+    if (!isObject(value)) return null;
+    const face_box = box(value.face_box, label);
+    if (!face_box) return null;
+    return { face_box, landmarks: landmarks(value.landmarks, label), confidence: unit(value.confidence, `${label} confidence`) };
+  };
+
+  const listed = Array.isArray(raw.faces) ? raw.faces : [];
+  const faces = listed.map(face).filter((f): f is DetectedFace => !!f);
+  if (faces.length < listed.length) warn(`${listed.length - faces.length} detected face(s) without a usable box were dropped.`);
+  const ordered = [...faces].sort((a, b) => a.face_box[1] - b.face_box[1]);
+  if (ordered.some((f, i) => f !== faces[i])) warn('Faces were not ordered left to right; reordered.');
+
+  // The primary face is the top-level one, or the largest listed face when that is unusable
+  const area = (b: number[]) => (b[2] - b[0]) * (b[3] - b[1]);
+  let primaryBox = box(raw.face_box, 'Primary face');
+  let primaryLandmarks = landmarks(raw.landmarks, 'Primary face');
+  if (!primaryBox && ordered.length) {
+    const largest = ordered.reduce((a, b) => area(b.face_box) > area(a.face_box) ? b : a);
+    primaryBox = largest.face_box;
+    primaryLandmarks = largest.landmarks ?? {};
+    warn('Primary face_box was missing or invalid; used the largest detected face.');
+  }
+  if (!primaryBox) {
+    throw new SwapError('bad_response', "Analysis has no usable face box", { operation: 'analysis' });
+  }
+
+  const text = (value: unknown, label: string) => {
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    warn(`${label} missing.`);
+    return '';
+  };
+
+  const lighting = isObject(raw.lighting) ? raw.lighting : {};
+  if (!isObject(raw.lighting)) warn('Lighting missing.');
+  const directionText = typeof lighting.direction === 'string' ? lighting.direction.trim().toLowerCase() : '';
+  const direction = LIGHTING_DIRECTIONS.find(d => d === directionText)
+    ?? DIRECTION_WORDS.find(([pattern]) => pattern.test(directionText))?.[1];
+  if (!direction) warn(`Lighting direction ${JSON.stringify(lighting.direction ?? null)} not recognized.`);
+  else if (direction !== directionText) warn(`Lighting direction "${lighting.direction}" read as "${direction}".`);
+  const temperature = finite(lighting.color_temperature) ? `${lighting.color_temperature}K` : text(lighting.color_temperature, 'Color temperature');
+
+  let face_scale_ratio: number | undefined;
+  if (finite(raw.face_scale_ratio) && raw.face_scale_ratio > 0 && raw.face_scale_ratio <= 1) {
+    face_scale_ratio = raw.face_scale_ratio;
+  } else {
+    face_scale_ratio = Math.round((area(primaryBox) / (MAX * MAX)) * 1000) / 1000;
+    warn(`face_scale_ratio ${raw.face_scale_ratio === undefined ? 'missing' : 'out of range'}; derived from face_box.`);
+  }
+
+  return {
+    face_box: primaryBox,
+    landmarks: primaryLandmarks,
+    skin_tone: text(raw.skin_tone, 'Skin tone'),
+    undertone: text(raw.undertone, 'Undertone'),
+    lighting: {
+      direction: direction ?? 'unknown',
+      intensity: unit(lighting.intensity, 'Lighting intensity'),
+      color_temperature: temperature,
+    },
+    face_scale_ratio,
+    confidence: unit(raw.confidence, 'Confidence'),
+    occlusions: Array.isArray(raw.occlusions)
+      ? raw.occlusions.filter((o): o is string => typeof o === 'string' && !!o.trim()).map(o => o.trim().toLowerCase())
+      : undefined,
+    faces: ordered.length ? ordered : undefined,
+    ...(warnings.length ? { warnings } : {}),
+  };
+};
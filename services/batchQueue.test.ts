@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RetryPolicy } from '../types';
+import { backoffDelay, createBatchQueue } from './batchQueue';
+import { SwapError } from './errors';
+
+const policy: RetryPolicy = {
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+  maxRetries: { rate_limit: 2, server: 1, network: 1, fatal: 0 },
+};
+
+// Resolves or rejects each job by hand so tests control the order jobs finish in
+const deferredRun = () => {
+  const jobs = new Map<string, { resolve: (v: string) => void; reject: (e: unknown) => void; signal: AbortSignal }>();
+  const run = vi.fn((id: string, signal: AbortSignal) => new Promise<string>((resolve, reject) => {
+    jobs.set(id, { resolve, reject, signal });
+  }));
+  return { jobs, run };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('backoffDelay', () => {
+  it('doubles per attempt with jitter and stops at the cap', () => {
+    for (let i = 0; i < 20; i++) {
+      const first = backoffDelay(1, policy);
+      expect(first).toBeGreaterThanOrEqual(500);
+      expect(first).toBeLessThanOrEqual(1000);
+      const capped = backoffDelay(10, policy);
+      expect(capped).toBeGreaterThanOrEqual(4000);
+      expect(capped).toBeLessThanOrEqual(8000);
+    }
+  });
+});
+
+describe('createBatchQueue', () => {
+  it('runs no more jobs at once than the concurrency', async () => {
+    const { jobs, run } = deferredRun();
+    const queue = createBatchQueue({ concurrency: 2, retry: policy, run });
+    queue.enqueue(['a', 'b', 'c']);
+    expect(queue.getSnapshot()).toMatchObject({ status: 'running', active: ['a', 'b'], queued: ['c'] });
+
+    jobs.get('a')!.resolve('done');
+    await flush();
+    expect(queue.getSnapshot().active).toEqual(['b', 'c']);
+  });
+
+  it('ignores ids that are already queued or running', () => {
+    const { run } = deferredRun();
+    const queue = createBatchQueue({ concurrency: 1, retry: policy, run });
+    queue.enqueue(['a', 'b']);
+    queue.enqueue(['a', 'b']);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(queue.getSnapshot().queued).toEqual(['b']);
+  });
+
+  it('holds queued jobs while paused and returns to idle when drained', async () => {
+    const { jobs, run } = deferredRun();
+    const onSuccess = vi.fn();
+    const queue = createBatchQueue({ concurrency: 1, retry: policy, run, onSuccess });
+    queue.enqueue(['a', 'b']);
+    queue.pause();
+    jobs.get('a')!.resolve('a done');
+    await flush();
+    expect(queue.getSnapshot()).toMatchObject({ status: 'paused', active: [], queued: ['b'] });
+
+    queue.resume();
+    jobs.get('b')!.resolve('b done');
+    await flush();
+    expect(queue.getSnapshot().status).toBe('idle');
+    expect(onSuccess.mock.calls).toEqual([['a', 'a done'], ['b', 'b done']]);
+  });
+
+  it('aborts in-flight jobs on cancel without reporting them as failed', async () => {
+    const { jobs, run } = deferredRun();
+    const onFailure = vi.fn();
+    const onCancel = vi.fn();
+    const queue = createBatchQueue({ concurrency: 1, retry: policy, run, onFailure, onCancel });
+    queue.enqueue(['a', 'b']);
+    queue.cancel();
+    expect(jobs.get('a')!.signal.aborted).toBe(true);
+    jobs.get('a')!.reject(new DOMException('Aborted', 'AbortError'));
+    await flush();
+    expect(onCancel.mock.calls.map(([id]) => id)).toEqual(['b', 'a']);
+    expect(onFailure).not.toHaveBeenCalled();
+    expect(queue.getSnapshot().status).toBe('idle');
+  });
+
+  describe('retries', () => {
+    beforeEach(() => { vi.useFakeTimers(); });
+    afterEach(() => { vi.useRealTimers(); });
+
+    it('backs off retryable errors and runs the job again', async () => {
+      const run = vi.fn()
+        .mockRejectedValueOnce(new SwapError('rate_limit', '429'))
+        .mockResolvedValueOnce('ok');
+      const onSuccess = vi.fn();
+      const queue = createBatchQueue({ concurrency: 1, retry: policy, run, onSuccess });
+      queue.enqueue(['a']);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(queue.getSnapshot().waiting.a).toMatchObject({ attempt: 1 });
+
+      await vi.advanceTimersByTimeAsync(policy.baseDelayMs);
+      expect(run).toHaveBeenCalledTimes(2);
+      expect(onSuccess).toHaveBeenCalledWith('a', 'ok');
+      expect(queue.getSnapshot().status).toBe('idle');
+    });
+
+    it('fails once the retry budget for the error kind is spent', async () => {
+      const run = vi.fn().mockRejectedValue(new SwapError('server', '503'));
+      const onFailure = vi.fn();
+      const queue = createBatchQueue({ concurrency: 1, retry: policy, run, onFailure });
+      queue.enqueue(['a']);
+      await vi.advanceTimersByTimeAsync(policy.maxDelayMs);
+      expect(run).toHaveBeenCalledTimes(2);
+      expect(onFailure).toHaveBeenCalledWith('a', expect.any(SwapError), 2);
+    });
+
+    it('does not retry fatal errors', async () => {
+      const run = vi.fn().mockRejectedValue(new SwapError('auth', 'API key not valid'));
+      const onFailure = vi.fn();
+      const queue = createBatchQueue({ concurrency: 1, retry: policy, run, onFailure });
+      queue.enqueue(['a']);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(onFailure).toHaveBeenCalledWith('a', expect.any(SwapError), 1);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { BATCH_QUEUE_DEFAULTS, ERROR_KINDS } from "../constants";
+import { RetryPolicy } from "../types";
+import { toSwapError } from "./errors";
+
+export interface QueueSnapshot {
+  status: 'idle' | 'running' | 'paused';
+  queued: string[];
+  active: string[];
+  waiting: Record<string, { attempt: number; retryAt: number; reason: string }>;
+}
+
+interface BatchQueueOptions<R> {
+  concurrency?: number;
+  retry?: RetryPolicy;
+  run: (id: string, signal: AbortSignal) => Promise<R>;
+  onStart?: (id: string, attempt: number) => void;
+  onSuccess?: (id: string, result: R) => void;
+  onFailure?: (id: string, error: unknown, attempts: number) => void;
+  onCancel?: (id: string) => void;
+}
+
+export const backoffDelay = (attempt: number, policy: RetryPolicy) => {
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  // Jitter keeps concurrent workers from retrying in lockstep after a shared 429
+  return Math.round(exp / 2 + Math.random() * (exp / 2));
+};
+
+export const createBatchQueue = <R>(options: BatchQueueOptions<R>) => {
+  const policy = options.retry ?? BATCH_QUEUE_DEFAULTS.retry;
+  let concurrency = options.concurrency ?? BATCH_QUEUE_DEFAULTS.concurrency;
+  let paused = false;
+
+  const pending: { id: string; attempt: number }[] = [];
+  const active = new Map<string, AbortController>();
+  const waiting = new Map<string, { attempt: number; retryAt: number; reason: string; timer: ReturnType<typeof setTimeout> }>();
+  const listeners = new Set<() => void>();
+
+  const buildSnapshot = (): QueueSnapshot => {
+    const busy = pending.length + active.size + waiting.size > 0;
+    return {
+      status: !busy ? 'idle' : paused ? 'paused' : 'running',
+      queued: pending.map(job => job.id),
+      active: Array.from(active.keys()),
+      waiting: Object.fromEntries(Array.from(waiting, ([id, { attempt, retryAt, reason }]) => [id, { attempt, retryAt, reason }])),
+    };
+  };
+  let snapshot = buildSnapshot();
+
+  const emit = () => {
+    snapshot = buildSnapshot();
+    if (snapshot.status === 'idle') paused = false;
+    listeners.forEach(l => l());
+  };
+
+  const has = (id: string) => active.has(id) || waiting.has(id) || pending.some(job => job.id === id);
+
+  const execute = async (id: string, attempt: number) => {
+    const controller = new AbortController();
+    active.set(id, controller);
+    options.onStart?.(id, attempt);
+    emit();
+
+    try {
+      const result = await options.run(id, controller.signal);
+      if (controller.signal.aborted) return;
+      active.delete(id);
+      options.onSuccess?.(id, result);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      active.delete(id);
+      const { kind } = toSwapError(error);
+      if (attempt <= policy.maxRetries[ERROR_KINDS[kind].retry]) {
+        const delay = backoffDelay(attempt, policy);
+        const timer = setTimeout(() => {
+          waiting.delete(id);
+          pending.unshift({ id, attempt: attempt + 1 });
+          pump();
+        }, delay);
+        waiting.set(id, { attempt, retryAt: Date.now() + delay, reason: ERROR_KINDS[kind].label, timer });
+      } else {
+        options.onFailure?.(id, error, attempt);
+      }
+    }
+    pump();
+  };
+
+  const pump = () => {
+    while (!paused && active.size < concurrency && pending.length > 0) {
+      const job = pending.shift()!;
+      execute(job.id, job.attempt);
+    }
+    emit();
+  };
+
+  return {
+    enqueue: (ids: string[]) => {
+      ids.forEach(id => { if (!has(id)) pending.push({ id, attempt: 1 }); });
+      pump();
+    },
+    pause: () => {
+      if (snapshot.status !== 'running') return;
+      paused = true;
+      emit();
+    },
+    resume: () => {
+      paused = false;
+      pump();
+    },
+    // Drops queued and backing-off jobs and aborts in-flight requests
+    cancel: () => {
+      const dropped = [...pending.map(job => job.id), ...waiting.keys(), ...active.keys()];
+      pending.length = 0;
+      waiting.forEach(w => clearTimeout(w.timer));
+      waiting.clear();
+      active.forEach(controller => controller.abort());
+      active.clear();
+      paused = false;
+      dropped.forEach(id => options.onCancel?.(id));
+      emit();
+    },
+    remove: (id: string) => {
+      const index = pending.findIndex(job => job.id === id);
+      if (index >= 0) pending.splice(index, 1);
+      clearTimeout(waiting.get(id)?.timer);
+      waiting.delete(id);
+      active.get(id)?.abort();
+      active.delete(id);
+      pump();
+    },
+    setConcurrency: (value: number) => {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+    getSnapshot: () => snapshot,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export type BatchQueue = ReturnType<typeof createBatchQueue>;
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { blendMasked, labToRgb, Pixels, poissonBlend, rgbToLab } from './colorTransfer';
+import { featherMask } from './masking';
+
+const SIZE = 64;
+
+const flat = (value: number): Pixels => {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let i = 0; i < data.length; i += 4) data.set([value, value, value, 255], i);
+  return { data, width: SIZE, height: SIZE };
+};
+
+// Hard square in the middle, feathered the way finishOutput does it
+const masks = () => {
+  const hard = new Uint8ClampedArray(SIZE * SIZE);
+  for (let y = 20; y < 44; y++) for (let x = 20; x < 44; x++) hard[y * SIZE + x] = 255;
+  return { hard, soft: featherMask(hard, SIZE, SIZE, 9) };
+};
+
+const channelRange = (pixels: Pixels, mask: Uint8ClampedArray) => {
+  let min = 255, max = 0;
+  mask.forEach((m, p) => {
+    if (m === 0) return;
+    min = Math.min(min, pixels.data[p * 4]);
+    max = Math.max(max, pixels.data[p * 4]);
+  });
+  return { min, max };
+};
+
+describe('poissonBlend', () => {
+  it('corrects a uniformly offset edit to the original across the feather band', () => {
+    const { hard, soft } = masks();
+    expect(soft.some((m, p) => m > 0 && hard[p] === 0)).toBe(true);
+    const original = flat(100), edit = flat(140);
+
+    poissonBlend(edit, original, soft);
+    blendMasked(original, edit, soft);
+
+    const { min, max } = channelRange(original, soft);
+    expect(min).toBeGreaterThanOrEqual(98);
+    expect(max).toBeLessThanOrEqual(102);
+  });
+
+  it('keeps the internal gradients of the edit', () => {
+    const { soft } = masks();
+    const original = flat(100), edit = flat(140);
+    // A bright stripe inside the region must survive the correction
+    for (let y = 28; y < 36; y++) for (let x = 28; x < 36; x++) edit.data.set([200, 200, 200], (y * SIZE + x) * 4);
+
+    poissonBlend(edit, original, soft);
+
+    const center = (32 * SIZE + 32) * 4, beside = (32 * SIZE + 24) * 4;
+    expect(edit.data[center] - edit.data[beside]).toBeGreaterThan(50);
+  });
+
+  it('leaves pixels outside the mask untouched', () => {
+    const { soft } = masks();
+    const original = flat(100), edit = flat(140);
+    poissonBlend(edit, original, soft);
+    expect(edit.data[0]).toBe(140);
+  });
+});
+
+describe('blendMasked', () => {
+  it('weights by coverage and never writes uncovered pixels', () => {
+    const original = flat(100), edit = flat(200);
+    const mask = new Uint8ClampedArray(SIZE * SIZE);
+    mask[0] = 255;
+    mask[1] = 128;
+    blendMasked(original, edit, mask);
+    expect(original.data[0]).toBe(200);
+    expect(original.data[4]).toBe(150);
+    expect(original.data[8]).toBe(100);
+  });
+});
+
+describe('LAB conversion', () => {
+  it('round-trips sRGB', () => {
+    const samples: [number, number, number][] = [[0, 0, 0], [255, 255, 255], [200, 120, 90], [30, 160, 220]];
+    for (const rgb of samples) {
+      const back = labToRgb(rgbToLab(...rgb));
+      back.forEach((c, i) => expect(c).toBeCloseTo(rgb[i], 3));
+    }
+  });
+});
@@ -0,0 +1,258 @@
+// Deterministic post-processing on raw RGBA pixels. No DOM or canvas here, so everything can run
+// against fixture buffers.
+
+// Structurally compatible with ImageData
+export interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// A replaced face in pixel coordinates; the neck sits below chinY around neckX
+export interface FaceRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  chinY: number;
+  neckX: number;
+}
+
+export type Lab = [number, number, number];
+
+const MIN_SAMPLES = 50;
+const LUMA_WEIGHT = 0.5; // neck skin is usually shaded by the chin, so lightness only moves halfway
+const STD_RATIO_LIMITS: [number, number] = [0.5, 2];
+
+// --- sRGB <-> CIELAB (D65) ---
+
+const toLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const fromLinear = (v: number) => 255 * (v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055);
+
+const WHITE = [0.95047, 1, 1.08883];
+const labF = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+const labFInv = (t: number) => t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27);
+
+export const rgbToLab = (r: number, g: number, b: number): Lab => {
+  const lr = toLinear(r), lg = toLinear(g), lb = toLinear(b);
+  const x = (0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / WHITE[0];
+  const y = (0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb) / WHITE[1];
+  const z = (0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb) / WHITE[2];
+  const fx = labF(x), fy = labF(y), fz = labF(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+export const labToRgb = ([l, a, b]: Lab): [number, number, number] => {
+  const fy = (l + 16) / 116, fx = fy + a / 500, fz = fy - b / 200;
+  const x = labFInv(fx) * WHITE[0], y = labFInv(fy) * WHITE[1], z = labFInv(fz) * WHITE[2];
+  const lr = 3.2404542 * x - 1.5371385 * y - 0.4985314 * z;
+  const lg = -0.9692660 * x + 1.8760108 * y + 0.0415560 * z;
+  const lb = 0.0556434 * x - 0.2040259 * y + 1.0572252 * z;
+  return [fromLinear(lr), fromLinear(lg), fromLinear(lb)];
+};
+
+// Classic YCbCr skin range; broad enough for every tone, narrow enough to drop clothing, hair and background
+const isSkin = (r: number, g: number, b: number) => {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+};
+
+interface LabStats {
+  mean: Lab;
+  std: Lab;
+}
+
+// LAB mean and deviation of skin pixels for which `include` holds; all included pixels when too few look like skin
+const skinStats = (pixels: Pixels, include: (x: number, y: number) => boolean, x0: number, y0: number, x1: number, y1: number): LabStats | null => {
+  const collect = (skinOnly: boolean) => {
+    const sum = [0, 0, 0], sq = [0, 0, 0];
+    let n = 0;
+    for (let y = Math.max(0, Math.floor(y0)); y < Math.min(pixels.height, Math.ceil(y1)); y++) {
+      for (let x = Math.max(0, Math.floor(x0)); x < Math.min(pixels.width, Math.ceil(x1)); x++) {
+        if (!include(x, y)) continue;
+        const i = (y * pixels.width + x) * 4;
+        const r = pixels.data[i], g = pixels.data[i + 1], b = pixels.data[i + 2];
+        if (skinOnly && !isSkin(r, g, b)) continue;
+        const lab = rgbToLab(r, g, b);
+        for (let c = 0; c < 3; c++) { sum[c] += lab[c]; sq[c] += lab[c] * lab[c]; }
+        n++;
+      }
+    }
+    if (n < MIN_SAMPLES) return null;
+    const mean = sum.map(s => s / n) as Lab;
+    const std = sq.map((s, c) => Math.sqrt(Math.max(0, s / n - mean[c] * mean[c]))) as Lab;
+    return { mean, std };
+  };
+  return collect(true) || collect(false);
+};
+
+const clamp = (v: number, [lo, hi]: [number, number]) => Math.min(hi, Math.max(lo, v));
+
+// Shifts each swapped face toward the target's own neck skin in LAB: a/b mean and spread fully,
+// lightness mean partially. Pixels are changed in place, weighted by mask coverage, and only inside
+// the face's box extended over the neck. Faces whose neck isn't visible are left alone.
+export const matchSkinColor = (edit: Pixels, original: Pixels, regions: FaceRegion[], mask: Uint8ClampedArray) => {
+  const { width, data } = edit;
+  for (const r of regions) {
+    const inFace = (x: number, y: number) => {
+      const dx = (x - (r.x + r.width / 2)) / (r.width * 0.35), dy = (y - (r.y + r.height * 0.55)) / (r.height * 0.35);
+      return dx * dx + dy * dy <= 1;
+    };
+    const neck = { x0: r.neckX - r.width * 0.2, x1: r.neckX + r.width * 0.2, y0: r.chinY + r.height * 0.05, y1: r.chinY + r.height * 0.35 };
+    const target = skinStats(original, () => true, neck.x0, neck.y0, neck.x1, neck.y1);
+    const source = skinStats(edit, inFace, r.x, r.y, r.x + r.width, r.y + r.height);
+    if (!target || !source) continue;
+
+    const ratio = [1, 2].map(c => source.std[c] > 1e-3 ? clamp(target.std[c] / source.std[c], STD_RATIO_LIMITS) : 1);
+    const shiftL = (target.mean[0] - source.mean[0]) * LUMA_WEIGHT;
+
+    const margin = r.width * 0.25;
+    const x0 = Math.max(0, Math.floor(r.x - margin)), x1 = Math.min(width, Math.ceil(r.x + r.width + margin));
+    const y0 = Math.max(0, Math.floor(r.y - margin)), y1 = Math.min(edit.height, Math.ceil(neck.y1 + r.height * 0.2));
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const p = y * width + x;
+        const m = mask[p];
+        if (m === 0) continue;
+        const i = p * 4;
+        const [l, a, b] = rgbToLab(data[i], data[i + 1], data[i + 2]);
+        const rgb = labToRgb([
+          l + shiftL,
+          (a - source.mean[1]) * ratio[0] + target.mean[1],
+          (b - source.mean[2]) * ratio[1] + target.mean[2],
+        ]);
+        for (let c = 0; c < 3; c++) data[i + c] = Math.round(data[i + c] + (rgb[c] - data[i + c]) * (m / 255));
+      }
+    }
+  }
+};
+
+// Poisson-style seamless blending (membrane form): adds the smooth harmonic correction that makes the
+// edited region meet the original exactly at the mask boundary while keeping its internal gradients.
+// The correction is smooth, so Laplace's equation is solved on a coarse grid and sampled bilinearly.
+// The region is every pixel the mask touches at all; pass the mask the result will be composited with,
+// so the feathered edge meets the original too instead of showing uncorrected pixels.
+export const poissonBlend = (edit: Pixels, original: Pixels, mask: Uint8ClampedArray, maxGrid = 160, maxIterations = 600) => {
+  const { width, height } = edit;
+  let bx0 = width, by0 = height, bx1 = -1, by1 = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x] === 0) continue;
+      if (x < bx0) bx0 = x; if (x > bx1) bx1 = x;
+      if (y < by0) by0 = y; if (y > by1) by1 = y;
+    }
+  }
+  if (bx1 < 0) return;
+
+  const cell = Math.max(1, Math.ceil(Math.max(bx1 - bx0 + 1, by1 - by0 + 1) / maxGrid));
+  // One cell of padding on each side so the region is enclosed by boundary cells
+  const ox = bx0 - cell, oy = by0 - cell;
+  const gw = Math.ceil((bx1 - bx0 + 1) / cell) + 2, gh = Math.ceil((by1 - by0 + 1) / cell) + 2;
+  const cells = gw * gh;
+  const UNKNOWN = 0, FIXED = 1, OFF_IMAGE = 2;
+  const kind = new Uint8Array(cells);
+  const value = new Float32Array(cells * 3);
+
+  for (let gy = 0; gy < gh; gy++) {
+    for (let gx = 0; gx < gw; gx++) {
+      const g = gy * gw + gx;
+      let inside = 0, outside = 0;
+      const diff = [0, 0, 0];
+      for (let y = oy + gy * cell; y < oy + (gy + 1) * cell; y++) {
+        for (let x = ox + gx * cell; x < ox + (gx + 1) * cell; x++) {
+          if (x < 0 || y < 0 || x >= width || y >= height) continue;
+          const p = y * width + x;
+          if (mask[p] !== 0) { inside++; continue; }
+          outside++;
+          for (let c = 0; c < 3; c++) diff[c] += original.data[p * 4 + c] - edit.data[p * 4 + c];
+        }
+      }
+      if (inside + outside === 0) { kind[g] = OFF_IMAGE; continue; }
+      if (inside >= outside) { kind[g] = UNKNOWN; continue; }
+      kind[g] = FIXED;
+      for (let c = 0; c < 3; c++) value[g * 3 + c] = diff[c] / outside;
+    }
+  }
+
+  // Start unknowns at the boundary mean so fewer iterations are needed
+  const start = [0, 0, 0];
+  let fixedCount = 0;
+  for (let g = 0; g < cells; g++) {
+    if (kind[g] !== FIXED) continue;
+    for (let c = 0; c < 3; c++) start[c] += value[g * 3 + c];
+    fixedCount++;
+  }
+  if (fixedCount === 0) return; // the mask covers the whole image; there is nothing to blend into
+  for (let g = 0; g < cells; g++) {
+    if (kind[g] === UNKNOWN) for (let c = 0; c < 3; c++) value[g * 3 + c] = start[c] / fixedCount;
+  }
+
+  // Gauss-Seidel with over-relaxation; off-image neighbours are skipped (zero-gradient edge)
+  const omega = 1.9;
+  const neighbours = [-1, 1, -gw, gw];
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let maxChange = 0;
+    for (let gy = 1; gy < gh - 1; gy++) {
+      for (let gx = 1; gx < gw - 1; gx++) {
+        const g = gy * gw + gx;
+        if (kind[g] !== UNKNOWN) continue;
+        for (let c = 0; c < 3; c++) {
+          let sum = 0, n = 0;
+          for (const d of neighbours) {
+            if (kind[g + d] === OFF_IMAGE) continue;
+            sum += value[(g + d) * 3 + c];
+            n++;
+          }
+          if (n === 0) continue;
+          const current = value[g * 3 + c];
+          const next = current + omega * (sum / n - current);
+          maxChange = Math.max(maxChange, Math.abs(next - current));
+          value[g * 3 + c] = next;
+        }
+      }
+    }
+    if (maxChange < 0.01) break;
+  }
+
+  // Off-image cells take the nearest usable neighbour so bilinear sampling near the border stays sane
+  for (let g = 0; g < cells; g++) {
+    if (kind[g] !== OFF_IMAGE) continue;
+    const source = neighbours.map(d => g + d).find(n => n >= 0 && n < cells && kind[n] !== OFF_IMAGE);
+    if (source !== undefined) for (let c = 0; c < 3; c++) value[g * 3 + c] = value[source * 3 + c];
+  }
+
+  const sample = (fx: number, fy: number, c: number) => {
+    const x = clamp(fx, [0, gw - 1]), y = clamp(fy, [0, gh - 1]);
+    const x0 = Math.floor(x), y0 = Math.floor(y);
+    const x1 = Math.min(gw - 1, x0 + 1), y1 = Math.min(gh - 1, y0 + 1);
+    const tx = x - x0, ty = y - y0;
+    const v = (gx: number, gy: number) => value[(gy * gw + gx) * 3 + c];
+    return (v(x0, y0) * (1 - tx) + v(x1, y0) * tx) * (1 - ty) + (v(x0, y1) * (1 - tx) + v(x1, y1) * tx) * ty;
+  };
+
+  for (let y = Math.max(0, oy); y < Math.min(height, oy + gh * cell); y++) {
+    for (let x = Math.max(0, ox); x < Math.min(width, ox + gw * cell); x++) {
+      const p = y * width + x;
+      if (mask[p] === 0) continue;
+      const fx = (x - ox) / cell - 0.5, fy = (y - oy) / cell - 0.5;
+      for (let c = 0; c < 3; c++) edit.data[p * 4 + c] = Math.round(edit.data[p * 4 + c] + sample(fx, fy, c));
+    }
+  }
+};
+
+// Edit pixels where the mask covers, original pixels elsewhere, written into `original`. Uncovered
+// pixels are never touched.
+export const blendMasked = (original: Pixels, edit: Pixels, mask: Uint8ClampedArray) => {
+  const out = original.data, src = edit.data;
+  for (let p = 0; p < mask.length; p++) {
+    const m = mask[p];
+    if (m === 0) continue;
+    const i = p * 4;
+    for (let c = 0; c < 4; c++) out[i + c] = m === 255 ? src[i + c] : Math.round(out[i + c] + ((src[i + c] - out[i + c]) * m) / 255);
+  }
+};
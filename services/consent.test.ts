@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { ConsentRecord, ProcessedImage, SourceIdentity } from '../types';
+import { assertConsent, blockedIdentities, ConsentError, consentStatus } from './consent';
+
+const identity = (id: string, consent?: Partial<ConsentRecord>): SourceIdentity => ({
+  id,
+  name: `Identity ${id}`,
+  images: ['data:image/png;base64,'],
+  createdAt: 0,
+  consent: consent && { subjectName: 'Subject', documentRef: 'REL-1', allowedUsages: ['editorial'], recordedAt: 0, ...consent },
+});
+
+const target = (patch: Partial<ProcessedImage> = {}): ProcessedImage => ({ id: 't', originalUrl: '', status: 'idle', ...patch });
+
+describe('consentStatus', () => {
+  it('is missing without a record or usages', () => {
+    expect(consentStatus(identity('a')).state).toBe('missing');
+    expect(consentStatus(identity('a', { allowedUsages: [] })).state).toBe('missing');
+  });
+
+  it('checks the intended usage only when one is given', () => {
+    const editorial = identity('a', {});
+    expect(consentStatus(editorial).state).toBe('valid');
+    expect(consentStatus(editorial, 'editorial').state).toBe('valid');
+    expect(consentStatus(editorial, 'advertising')).toMatchObject({ state: 'not_allowed', message: expect.stringContaining('advertising') });
+  });
+
+  it('expires at the end of the expiry day', () => {
+    const now = new Date('2026-03-10T12:00:00').getTime();
+    expect(consentStatus(identity('a', { expiresAt: '2026-03-10' }), undefined, now).state).toBe('expiring');
+    expect(consentStatus(identity('a', { expiresAt: '2026-03-09' }), undefined, now).state).toBe('expired');
+  });
+});
+
+describe('assertConsent', () => {
+  const identities = [identity('a', {}), identity('b')];
+
+  it('throws a consent error for a usage the record does not allow', () => {
+    expect(() => assertConsent(['a'], identities, 'editorial')).not.toThrow();
+    expect(() => assertConsent(['a'], identities, 'social')).toThrowError(ConsentError);
+  });
+
+  it('throws when any identity has no consent', () => {
+    expect(() => assertConsent(['a', 'b'], identities)).toThrowError(/Identity b/);
+  });
+});
+
+describe('blockedIdentities', () => {
+  it('lists identities the targets would use that cannot be used for the intended usage', () => {
+    const identities = [identity('a', {}), identity('b', { allowedUsages: ['advertising'] })];
+    const blocked = blockedIdentities([target({ identityId: 'b' })], identities, 'a', 'editorial');
+    expect([...blocked.keys()]).toEqual(['b']);
+    expect(blockedIdentities([target()], identities, 'a', 'editorial').size).toBe(0);
+  });
+});
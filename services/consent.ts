@@ -0,0 +1,82 @@
+import { ConsentUsage, ProcessedImage, SourceIdentity } from "../types";
+import { CONSENT_EXPIRY_WARNING_DAYS, CONSENT_USAGES } from "../constants";
+import { resolveSwapSources } from "./identities";
+import { SwapError } from "./errors";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ConsentState = 'valid' | 'expiring' | 'expired' | 'missing' | 'not_allowed';
+
+export interface ConsentStatus {
+  state: ConsentState;
+  message: string;
+}
+
+export class ConsentError extends SwapError {
+  constructor(message: string) {
+    super('consent', message);
+    this.name = 'ConsentError';
+  }
+}
+
+// expiresAt is the last valid day, so consent lapses at the end of it (local time)
+const expiryTime = (expiresAt: string) => new Date(`${expiresAt}T23:59:59.999`).getTime();
+
+const usageLabel = (usage: ConsentUsage) => CONSENT_USAGES.find(u => u.value === usage)?.label.toLowerCase() ?? usage;
+
+// Without `usage` only the record itself is checked (enough to analyze references); with it, the record
+// must also allow that use
+export const consentStatus = (identity: SourceIdentity, usage?: ConsentUsage, now = Date.now()): ConsentStatus => {
+  const consent = identity.consent;
+  if (!consent || !consent.subjectName.trim() || !consent.documentRef.trim()) {
+    return { state: 'missing', message: `No consent recorded for "${identity.name}"` };
+  }
+  if (consent.allowedUsages.length === 0) {
+    return { state: 'missing', message: `Consent for "${identity.name}" lists no allowed usages` };
+  }
+  if (usage && !consent.allowedUsages.includes(usage)) {
+    return { state: 'not_allowed', message: `Consent for "${identity.name}" does not cover ${usageLabel(usage)} use` };
+  }
+  if (consent.expiresAt) {
+    const expires = expiryTime(consent.expiresAt);
+    if (expires < now) return { state: 'expired', message: `Consent for "${identity.name}" expired on ${consent.expiresAt}` };
+    if (expires - now < CONSENT_EXPIRY_WARNING_DAYS * DAY_MS) {
+      return { state: 'expiring', message: `Consent for "${identity.name}" expires on ${consent.expiresAt}` };
+    }
+  }
+  return { state: 'valid', message: `Consent on file for "${identity.name}"` };
+};
+
+export const isConsentBlocking = (status: ConsentStatus) => status.state === 'missing' || status.state === 'expired' || status.state === 'not_allowed';
+
+// Identities that would be swapped into these targets but cannot be used yet. Targets without any
+// assignable identity are skipped here; the runner reports those itself.
+export const blockedIdentities = (targets: ProcessedImage[], identities: SourceIdentity[], activeIdentityId: string | undefined, usage: ConsentUsage) => {
+  const blocked = new Map<string, ConsentStatus>();
+  for (const target of targets) {
+    let identityIds: string[];
+    try {
+      identityIds = resolveSwapSources(target, identities, activeIdentityId).map(s => s.identityId);
+    } catch {
+      continue;
+    }
+    for (const id of identityIds) {
+      const identity = identities.find(i => i.id === id);
+      if (!identity || blocked.has(id)) continue;
+      const status = consentStatus(identity, usage);
+      if (isConsentBlocking(status)) blocked.set(id, status);
+    }
+  }
+  return blocked;
+};
+
+// Last line of defence before any model call or export: throws unless every identity has valid consent,
+// for `usage` when given
+export const assertConsent = (identityIds: string[], identities: SourceIdentity[], usage?: ConsentUsage) => {
+  for (const id of identityIds) {
+    const identity = identities.find(i => i.id === id);
+    if (!identity) continue;
+    const status = consentStatus(identity, usage);
+    if (isConsentBlocking(status)) throw new ConsentError(status.message);
+  }
+};
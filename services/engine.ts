@@ -0,0 +1,37 @@
+import { OutputResolution, ProcessedImage, SwapSettings } from "../types";
+import { ANALYSIS_MODELS, DRAFT_ENGINE, SWAP_MODELS } from "../constants";
+
+export type JobTier = 'draft' | 'final';
+
+export const modelLabel = (model: string) =>
+  [...SWAP_MODELS, ...ANALYSIS_MODELS].find(m => m.value === model)?.label || model;
+
+// Requested resolution if the model accepts it, else the model's largest; undefined for fixed-size models
+export const imageSizeFor = (settings: SwapSettings): OutputResolution | undefined => {
+  const resolutions = SWAP_MODELS.find(m => m.value === settings.swapModel)?.resolutions;
+  if (!resolutions || resolutions.length < 2) return undefined;
+  return resolutions.includes(settings.resolution) ? settings.resolution : resolutions[resolutions.length - 1];
+};
+
+const preferred = (target: ProcessedImage) => target.generations?.find(g => g.id === target.preferredGenerationId);
+
+export const isDraftOutput = (target: ProcessedImage) => !!preferred(target)?.draft;
+
+export const isApprovedDraft = (target: ProcessedImage) => isDraftOutput(target) && target.review?.state === 'approved';
+
+// In draft mode every run produces a draft, except that an approved draft is upgraded by its next run
+export const jobTier = (target: ProcessedImage, settings: SwapSettings): JobTier =>
+  settings.draftMode && !isApprovedDraft(target) ? 'draft' : 'final';
+
+export const settingsForTier = (settings: SwapSettings, tier: JobTier): SwapSettings =>
+  tier === 'draft' ? { ...settings, ...DRAFT_ENGINE } : settings;
+
+const describeModel = (settings: SwapSettings) => {
+  const size = imageSizeFor(settings);
+  return size ? `${modelLabel(settings.swapModel)} ${size}` : modelLabel(settings.swapModel);
+};
+
+export const describeEngine = (settings: SwapSettings) => [
+  settings.draftMode ? `Drafts: ${describeModel(settingsForTier(settings, 'draft'))} → ${describeModel(settings)}` : describeModel(settings),
+  `analysis ${modelLabel(settings.analysisModel)}`,
+].join(' · ');
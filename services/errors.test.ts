@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { describeFailure, SwapError, toSwapError } from './errors';
+
+describe('toSwapError', () => {
+  it('returns SwapErrors unchanged', () => {
+    const error = new SwapError('bad_response', 'Analysis was not valid JSON');
+    expect(toSwapError(error)).toBe(error);
+  });
+
+  it('classifies by HTTP status', () => {
+    const withStatus = (status: number) => Object.assign(new Error('request failed'), { status });
+    expect(toSwapError(withStatus(403)).kind).toBe('auth');
+    expect(toSwapError(withStatus(429)).kind).toBe('rate_limit');
+    expect(toSwapError(withStatus(503))).toMatchObject({ kind: 'server', status: 503, response: { httpStatus: 503 } });
+    expect(toSwapError(withStatus(400)).kind).toBe('invalid_input');
+  });
+
+  it('classifies by message when there is no status', () => {
+    expect(toSwapError(new Error('API key not valid. Please pass a valid API key.')).kind).toBe('auth');
+    expect(toSwapError(new Error('RESOURCE_EXHAUSTED: quota exceeded')).kind).toBe('rate_limit');
+    expect(toSwapError(new Error('The model is overloaded')).kind).toBe('server');
+    expect(toSwapError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(toSwapError('something odd')).toMatchObject({ kind: 'unknown', message: 'something odd' });
+  });
+
+  it('keeps the operation it was given', () => {
+    const error = toSwapError(new Error('timed out'), { operation: 'swap' });
+    expect(error).toMatchObject({ kind: 'network', operation: 'swap' });
+  });
+});
+
+describe('describeFailure', () => {
+  it('uses the kind for the user-facing text and keeps the original as detail', () => {
+    const failure = describeFailure(new Error('429 Too Many Requests'), 4);
+    expect(failure).toMatchObject({ kind: 'rate_limit', retryable: true, detail: '429 Too Many Requests', attempts: 4 });
+    expect(failure.message).not.toBe(failure.detail);
+  });
+
+  it('marks fatal kinds as not retryable', () => {
+    expect(describeFailure(Object.assign(new Error('denied'), { status: 401 })).retryable).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { ErrorKind, RequestSummary, ResponseDiagnostics, SwapFailure, UsageKind } from "../types";
+import { ERROR_KINDS } from "../constants";
+
+interface SwapErrorDetails {
+  status?: number;
+  operation?: UsageKind;
+  response?: ResponseDiagnostics;
+  request?: RequestSummary;
+}
+
+// Thrown by providers and the pipeline once they know what went wrong; anything else is classified
+// from its status and message by toSwapError
+export class SwapError extends Error {
+  kind: ErrorKind;
+  status?: number;
+  operation?: UsageKind;
+  response?: ResponseDiagnostics;
+  request?: RequestSummary;
+
+  constructor(kind: ErrorKind, message: string, details: SwapErrorDetails = {}) {
+    super(message);
+    this.name = 'SwapError';
+    this.kind = kind;
+    Object.assign(this, details);
+  }
+}
+
+const messageOf = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+const kindOf = (error: unknown, status?: number): ErrorKind => {
+  const message = messageOf(error);
+  if (status === 401 || status === 403 || /API key|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return 'auth';
+  if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|rate limit|quota/i.test(message)) return 'rate_limit';
+  if ((status && status >= 500) || /\b5\d\d\b|UNAVAILABLE|INTERNAL|overloaded/i.test(message)) return 'server';
+  if (error instanceof TypeError || /network|failed to fetch|timed? ?out/i.test(message)) return 'network';
+  if (status === 400 || /INVALID_ARGUMENT|Image load failed/i.test(message)) return 'invalid_input';
+  return 'unknown';
+};
+
+// SDK errors carry the HTTP status as `status`
+export const toSwapError = (error: unknown, details: SwapErrorDetails = {}): SwapError => {
+  if (error instanceof SwapError) return error;
+  const status = (error as { status?: unknown })?.status;
+  const httpStatus = typeof status === 'number' ? status : undefined;
+  return new SwapError(kindOf(error, httpStatus), messageOf(error), {
+    ...details,
+    status: httpStatus,
+    response: httpStatus ? { ...details.response, httpStatus } : details.response,
+  });
+};
+
+export const describeFailure = (error: unknown, attempts = 1): SwapFailure => {
+  const swapError = toSwapError(error);
+  const info = ERROR_KINDS[swapError.kind];
+  return {
+    kind: swapError.kind,
+    message: info.message,
+    remedy: info.remedy,
+    retryable: info.retry !== 'fatal',
+    detail: swapError.message,
+    operation: swapError.operation,
+    attempts,
+    failedAt: Date.now(),
+    request: swapError.request,
+    response: swapError.response,
+  };
+};
@@ -0,0 +1,200 @@
+import JSZip from 'jszip';
+import { ExportFormat, ExportOptions, ProcessedImage, Provenance, SourceIdentity } from '../types';
+import { PROVENANCE_SOFTWARE, SYNTHETIC_MEDIA_DISCLOSURE } from '../constants';
+import { createCanvas, dataUrlToBlob, loadImage } from './imageUtils';
+import { identityForFace } from './identities';
+import { drawWatermark, embedProvenance } from './provenance';
+import { reviewState } from './review';
+
+export const FILENAME_TOKENS = ['name', 'identity', 'index', 'date', 'id'] as const;
+type FilenameFields = Record<typeof FILENAME_TOKENS[number], string>;
+
+const MIME_TYPES: Record<ExportFormat, string> = { png: 'image/png', jpeg: 'image/jpeg', webp: 'image/webp' };
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+
+export interface ExportContext {
+  identities: SourceIdentity[];
+  activeIdentityId?: string;
+  defaultQuality: number; // 0-100, used when an output has no recorded settings
+}
+
+interface ManifestRow {
+  index: number;
+  target_id: string;
+  original_name: string;
+  status: ProcessedImage['status'];
+  output_file: string;
+  original_file: string;
+  identity: string;
+  model: string;
+  match_score: string;
+  generated_at: string;
+  consent_subject: string;
+  consent_document: string;
+  consent_expires: string;
+  consent_usages: string;
+  review: string;
+  review_reason: string;
+  notes: string;
+  error: string;
+  error_kind: string;
+}
+
+const preferredGeneration = (target: ProcessedImage) =>
+  target.generations?.find(g => g.id === target.preferredGenerationId) || target.generations?.[target.generations.length - 1];
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^./\\]+$/, '');
+
+const sanitize = (name: string) => name.replace(/[\\/:*?"<>|\x00-\x1f]+/g, '_').replace(/\s+/g, ' ').trim() || 'untitled';
+
+// Identities swapped into the preferred output. Outputs recorded before identityIds existed fall back
+// to the target's current assignment.
+export const identityIdsFor = (target: ProcessedImage, context: ExportContext): string[] => {
+  const ids = preferredGeneration(target)?.identityIds
+    || (target.selectedFaces?.length ? target.selectedFaces : [0]).map(face => identityForFace(target, face, context.activeIdentityId));
+  return [...new Set(ids)].filter((id): id is string => !!id);
+};
+
+export const identityNamesFor = (target: ProcessedImage, context: ExportContext): string[] =>
+  identityIdsFor(target, context).map(id => context.identities.find(i => i.id === id)?.name || id);
+
+export const filenameFields = (target: ProcessedImage, position: number, context: ExportContext): FilenameFields => {
+  const createdAt = preferredGeneration(target)?.createdAt ?? Date.now();
+  return {
+    name: target.fileName ? stripExtension(target.fileName) : `target_${target.sequence ?? position + 1}`,
+    identity: identityNamesFor(target, context).join('+') || 'unassigned',
+    index: String(target.sequence ?? position + 1).padStart(3, '0'),
+    date: new Date(createdAt).toISOString().slice(0, 10),
+    id: target.id,
+  };
+};
+
+// Unknown tokens are left as typed so mistakes show up in the preview
+export const renderFilename = (template: string, fields: FilenameFields) =>
+  sanitize(template.replace(/\{(\w+)\}/g, (token, key: string) => key in fields ? fields[key as keyof FilenameFields] : token));
+
+// PNG sources are passed through untouched unless a watermark is drawn; everything else is re-encoded on a canvas
+export const encodeImage = async (dataUrl: string, format: ExportFormat, quality: number, watermark = false): Promise<Blob> => {
+  const mimeType = MIME_TYPES[format];
+  if (!watermark && dataUrl.startsWith(`data:${mimeType}`)) return dataUrlToBlob(dataUrl);
+
+  const img = await loadImage(dataUrl);
+  const { canvas, ctx } = createCanvas(img.naturalWidth || img.width, img.naturalHeight || img.height);
+  if (format === 'jpeg') {
+    // No alpha channel in JPEG
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(img, 0, 0);
+  if (watermark) drawWatermark(ctx, canvas.width, canvas.height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`Encoding ${format} failed`)), mimeType, Math.min(1, Math.max(0, quality / 100)));
+  });
+};
+
+// Consent on file for each identity in the output, as recorded at export time
+const consentFor = (identityIds: string[], context: ExportContext) => identityIds.flatMap(identityId => {
+  const consent = context.identities.find(i => i.id === identityId)?.consent;
+  if (!consent) return [];
+  const { recordedAt, ...rest } = consent;
+  return [{ identityId, ...rest }];
+});
+
+export const buildProvenance = (target: ProcessedImage, context: ExportContext): Provenance => {
+  const generation = preferredGeneration(target);
+  const identityIds = identityIdsFor(target, context);
+  return {
+    software: PROVENANCE_SOFTWARE,
+    model: generation?.model || 'unknown',
+    settings: generation?.settings ?? target.effectiveSettings,
+    identityIds,
+    targetId: target.id,
+    createdAt: new Date(generation?.createdAt ?? Date.now()).toISOString(),
+    disclosure: SYNTHETIC_MEDIA_DISCLOSURE,
+    consent: consentFor(identityIds, context),
+  };
+};
+
+// The deliverable for one target: converted, optionally watermarked, with provenance embedded
+export const renderOutput = async (target: ProcessedImage, options: ExportOptions, context: ExportContext): Promise<Blob> => {
+  if (!target.processedUrl) throw new Error("Target has no output");
+  const quality = preferredGeneration(target)?.settings.outputQuality ?? target.effectiveSettings?.outputQuality ?? context.defaultQuality;
+  const blob = await encodeImage(target.processedUrl, options.format, quality, options.watermark);
+  return embedProvenance(blob, buildProvenance(target, context));
+};
+
+export const outputExtension = (format: ExportFormat) => EXTENSIONS[MIME_TYPES[format]];
+
+export const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: ManifestRow[]) => {
+  const columns = Object.keys(rows[0] || {}) as (keyof ManifestRow)[];
+  return [columns.join(','), ...rows.map(row => columns.map(c => csvCell(row[c])).join(','))].join('\r\n');
+};
+
+// Outputs of completed targets (or only approved ones), optionally with their originals, plus a manifest
+// covering every target (including failed, unprocessed and skipped ones) so downstream systems can reconcile the batch.
+export const buildExportZip = async (targets: ProcessedImage[], options: ExportOptions, context: ExportContext): Promise<Blob> => {
+  const zip = new JSZip();
+  const folder = zip.folder('swapped_faces')!;
+  const used = new Set<string>();
+  const rows: ManifestRow[] = [];
+
+  // Templates without {index} or {id} can collide; later files get a numeric suffix
+  const claim = (base: string, ext: string) => {
+    let name = `${base}.${ext}`;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}-${n}.${ext}`;
+    used.add(name.toLowerCase());
+    return name;
+  };
+
+  for (const [position, target] of targets.entries()) {
+    const generation = preferredGeneration(target);
+    const fields = filenameFields(target, position, context);
+    const consent = consentFor(identityIdsFor(target, context), context);
+    const base = renderFilename(options.filenameTemplate, fields);
+    let outputFile = '';
+    let originalFile = '';
+
+    if (target.processedUrl && (!options.approvedOnly || reviewState(target) === 'approved')) {
+      outputFile = claim(options.includeOriginals ? `${base}_after` : base, outputExtension(options.format));
+      folder.file(outputFile, await renderOutput(target, options, context));
+
+      if (options.includeOriginals) {
+        const originalMime = target.originalUrl.match(/^data:([^;,]+)/)?.[1] || 'image/png';
+        originalFile = claim(`${base}_before`, EXTENSIONS[originalMime] || 'png');
+        folder.file(originalFile, dataUrlToBlob(target.originalUrl));
+      }
+    }
+
+    rows.push({
+      index: target.sequence ?? position + 1,
+      target_id: target.id,
+      original_name: target.fileName || '',
+      status: target.status,
+      output_file: outputFile,
+      original_file: originalFile,
+      identity: fields.identity,
+      model: generation?.model || '',
+      match_score: target.quality ? target.quality.score.toFixed(3) : '',
+      generated_at: generation ? new Date(generation.createdAt).toISOString() : '',
+      consent_subject: consent.map(c => c.subjectName).join(' | '),
+      consent_document: consent.map(c => c.documentRef).join(' | '),
+      consent_expires: consent.map(c => c.expiresAt || 'none').join(' | '),
+      consent_usages: consent.map(c => c.allowedUsages.join(';')).join(' | '),
+      review: reviewState(target) || '',
+      review_reason: target.review?.reason || '',
+      notes: target.notes || '',
+      error: target.error || '',
+      error_kind: target.failure?.kind || '',
+    });
+  }
+
+  if (options.manifest === 'csv') zip.file('manifest.csv', toCsv(rows));
+  if (options.manifest === 'json') zip.file('manifest.json', JSON.stringify({ exportedAt: new Date().toISOString(), files: rows }, null, 2));
+
+  return zip.generateAsync({ type: 'blob' });
+};
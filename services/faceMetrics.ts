@@ -0,0 +1,149 @@
+import { DetectedFace, FaceAnalysisResult, Landmarks, Point } from "../types";
+
+const isBox = (box?: number[]) => Array.isArray(box) && box.length === 4 && box[2] > box[0] && box[3] > box[1];
+
+export const listFaces = (analysis: FaceAnalysisResult): DetectedFace[] =>
+  analysis.faces?.length
+    ? analysis.faces
+    : [{ face_box: analysis.face_box, landmarks: analysis.landmarks, confidence: analysis.confidence }];
+
+const boxIoU = (a: number[], b: number[]) => {
+  const h = Math.min(a[2], b[2]) - Math.max(a[0], b[0]);
+  const w = Math.min(a[3], b[3]) - Math.max(a[1], b[1]);
+  if (h <= 0 || w <= 0) return 0;
+  const inter = h * w;
+  return inter / ((a[2] - a[0]) * (a[3] - a[1]) + (b[2] - b[0]) * (b[3] - b[1]) - inter);
+};
+
+// Index of the detected face overlapping `box` the most, falling back to the closest center
+export const nearestFaceIndex = (analysis: FaceAnalysisResult, box: number[]): number => {
+  const faces = listFaces(analysis);
+  if (!isBox(box)) return 0;
+  let best = 0, bestScore = -Infinity;
+  faces.forEach((face, index) => {
+    if (!isBox(face.face_box)) return;
+    const iou = boxIoU(face.face_box, box);
+    const distance = Math.hypot(face.face_box[0] + face.face_box[2] - box[0] - box[2], face.face_box[1] + face.face_box[3] - box[1] - box[3]);
+    const score = iou > 0 ? iou : -distance;
+    if (score > bestScore) { best = index; bestScore = score; }
+  });
+  return best;
+};
+
+export const resolveTargetFaces = (analysis: FaceAnalysisResult, selected?: number[]): number[] => {
+  const count = listFaces(analysis).length;
+  const valid = (selected || []).filter(i => i >= 0 && i < count);
+  return valid.length ? valid : [nearestFaceIndex(analysis, analysis.face_box)];
+};
+
+// The analysis re-centered on one detected face, so single-face metrics work on group shots
+export const faceView = (analysis: FaceAnalysisResult, index: number): FaceAnalysisResult => {
+  const face = listFaces(analysis)[index];
+  if (!face) return analysis;
+  return { ...analysis, face_box: face.face_box, landmarks: face.landmarks ?? {}, confidence: face.confidence ?? analysis.confidence };
+};
+
+// Worst relative deviation of the output face box from the target's: width, height or center offset
+export const measureScaleDrift = (target: FaceAnalysisResult, output: FaceAnalysisResult): number => {
+  if (isBox(target.face_box) && isBox(output.face_box)) {
+    const [tY0, tX0, tY1, tX1] = target.face_box;
+    const [oY0, oX0, oY1, oX1] = output.face_box;
+    const tW = tX1 - tX0, tH = tY1 - tY0;
+    const oW = oX1 - oX0, oH = oY1 - oY0;
+    const centerShift = Math.hypot((oX0 + oX1 - tX0 - tX1) / 2, (oY0 + oY1 - tY0 - tY1) / 2);
+    return Math.max(Math.abs(oW - tW) / tW, Math.abs(oH - tH) / tH, centerShift / Math.max(tW, tH));
+  }
+  if (target.face_scale_ratio > 0 && output.face_scale_ratio > 0) {
+    return Math.abs(output.face_scale_ratio - target.face_scale_ratio) / target.face_scale_ratio;
+  }
+  return Infinity;
+};
+
+const point = (value: unknown): Point | null =>
+  Array.isArray(value) && value.length >= 2 && value.every(n => typeof n === 'number') ? [value[0], value[1]] : null;
+
+const NAMED_LANDMARKS = ['left_eye', 'right_eye', 'nose_tip', 'mouth_center'] as const;
+
+// Well-formed landmark points of one face; malformed entries are dropped
+export const landmarkGeometry = (landmarks?: Landmarks) => {
+  const lm: Record<string, unknown> = { ...landmarks };
+  return {
+    points: NAMED_LANDMARKS.map(name => point(lm[name])).filter((p): p is Point => !!p),
+    jawline: Array.isArray(lm.jawline) ? (lm.jawline as unknown[]).map(point).filter((p): p is Point => !!p) : [],
+  };
+};
+
+// 1 when equal, falling linearly to 0 at 100% relative difference
+const ratioSimilarity = (a: number, b: number) => {
+  if (!Number.isFinite(a) || !Number.isFinite(b) || Math.max(Math.abs(a), Math.abs(b)) === 0) return null;
+  return Math.max(0, 1 - Math.abs(a - b) / Math.max(Math.abs(a), Math.abs(b)));
+};
+
+const average = (values: (number | null)[]) => {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length ? present.reduce((sum, v) => sum + v, 0) / present.length : null;
+};
+
+// Scale-free proportions; only same-axis ratios so differing image aspect ratios don't skew them
+const faceProportions = (analysis: FaceAnalysisResult) => {
+  const lm: Record<string, unknown> = { ...analysis.landmarks };
+  const leftEye = point(lm.left_eye), rightEye = point(lm.right_eye);
+  const nose = point(lm.nose_tip), mouth = point(lm.mouth_center);
+  if (!isBox(analysis.face_box) || !leftEye || !rightEye || !nose || !mouth) return null;
+
+  const [y0, x0, y1, x1] = analysis.face_box;
+  const eyeY = (leftEye[0] + rightEye[0]) / 2;
+  const jaw = landmarkGeometry(analysis.landmarks).jawline;
+  const chinY = jaw.length ? Math.max(...jaw.map(p => p[0])) : y1;
+  return {
+    eyeSpacing: Math.abs(rightEye[1] - leftEye[1]) / (x1 - x0),
+    noseDrop: (nose[0] - eyeY) / (mouth[0] - eyeY),
+    eyeToMouth: (mouth[0] - eyeY) / (y1 - y0),
+    chinDrop: (chinY - mouth[0]) / (y1 - y0),
+  };
+};
+
+const SKIN_SCALE = ['fair', 'light', 'medium', 'tan', 'olive', 'brown', 'dark', 'deep'];
+
+const skinIndex = (tone?: string) => {
+  const lower = (tone || '').toLowerCase();
+  const index = SKIN_SCALE.findIndex(word => lower.includes(word));
+  return index >= 0 ? index : null;
+};
+
+const skinSimilarity = (a: FaceAnalysisResult, b: FaceAnalysisResult) => {
+  const ia = skinIndex(a.skin_tone), ib = skinIndex(b.skin_tone);
+  const tone = ia !== null && ib !== null ? Math.max(0, 1 - Math.abs(ia - ib) / 3) : null;
+  const undertone = a.undertone && b.undertone ? (a.undertone.toLowerCase() === b.undertone.toLowerCase() ? 1 : 0.5) : null;
+  return average([tone, undertone]);
+};
+
+export interface IdentityScore {
+  score: number;
+  landmarks: number | null;
+  geometry: number | null;
+  skin: number | null;
+}
+
+const SCORE_WEIGHTS = { landmarks: 0.45, geometry: 0.35, skin: 0.2 };
+
+// Compares the output face to the source identity. Skin is compared against `skinReference`, which is
+// the target when skin matching is on (the output is meant to take the target's tone).
+export const scoreIdentity = (
+  source: FaceAnalysisResult,
+  output: FaceAnalysisResult,
+  skinReference: FaceAnalysisResult = source
+): IdentityScore => {
+  const s = faceProportions(source), o = faceProportions(output);
+  const landmarks = s && o ? average([ratioSimilarity(s.eyeSpacing, o.eyeSpacing), ratioSimilarity(s.noseDrop, o.noseDrop)]) : null;
+  const geometry = s && o ? average([ratioSimilarity(s.eyeToMouth, o.eyeToMouth), ratioSimilarity(s.chinDrop, o.chinDrop)]) : null;
+  const skin = skinSimilarity(skinReference, output);
+
+  let weighted = 0, total = 0;
+  ([['landmarks', landmarks], ['geometry', geometry], ['skin', skin]] as const).forEach(([key, value]) => {
+    if (value === null) return;
+    weighted += value * SCORE_WEIGHTS[key];
+    total += SCORE_WEIGHTS[key];
+  });
+  return { score: total ? weighted / total : 0, landmarks, geometry, skin };
+};
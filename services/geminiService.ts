@@ -1,18 +1,20 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { FaceAnalysisResult, ModelType, SwapSettings } from "../types";
-
-const stripBase64 = (dataUrl: string) => {
-  return dataUrl.split(',')[1] || dataUrl;
-};
+import { GenerateContentResponse, GoogleGenAI, MediaModality, Type, Schema } from "@google/genai";
+import { CallUsage, FaceAnalysisResult, ImageProvider, ModelType, ResponseDiagnostics, SwapRequest, UsageKind, UsageSink } from "../types";
+import { stripBase64 } from "./imageUtils";
+import { faceView, listFaces, resolveTargetFaces } from "./faceMetrics";
+import { imageSizeFor } from "./engine";
+import { SwapError, toSwapError } from "./errors";
+import { COORDINATE_SYSTEMS, LIGHTING_DIRECTIONS, validateAnalysis } from "./analysisValidation";
 
 const getClient = () => {
   const apiKey = process.env.API_KEY; 
-  if (!apiKey) throw new Error("API Key not found");
+  if (!apiKey) throw new SwapError('auth', "API Key not found");
   return new GoogleGenAI({ apiKey });
 };
 
-// COST SAVER: Resize image for Analysis to 800px max (Reduces tokens significantly)
-const resizeForAnalysis = async (base64Str: string, maxDim = 800): Promise<string> => {
+// COST SAVER: Resize image for Analysis to 800px max (Reduces tokens significantly).
+// The size sent is returned too, in case the model answers in pixels.
+const resizeForAnalysis = async (base64Str: string, maxDim = 800): Promise<{ dataUrl: string; width: number; height: number }> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.onload = () => {
@@ -29,7 +31,7 @@ const resizeForAnalysis = async (base64Str: string, maxDim = 800): Promise<strin
       const ctx = canvas.getContext('2d');
       if (ctx) {
         ctx.drawImage(img, 0, 0, width, height);
-        resolve(canvas.toDataURL('image/jpeg', 0.8));
+        resolve({ dataUrl: canvas.toDataURL('image/jpeg', 0.8), width: canvas.width, height: canvas.height });
       } else {
         reject(new Error("Canvas context failed"));
       }
@@ -39,76 +41,237 @@ const resizeForAnalysis = async (base64Str: string, maxDim = 800): Promise<strin
   });
 };
 
-export const analyzeFace = async (imageBase64: string): Promise<FaceAnalysisResult> => {
+// Billed usage of one call from the response's usage metadata. Image tokens come from the per-modality
+// breakdown; when that is missing and an image came back, all candidate tokens are counted as image tokens.
+const readUsage = (kind: UsageKind, model: string, response: GenerateContentResponse, imagesIn: number, startedAt: number): CallUsage => {
+  const meta = response.usageMetadata;
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  const imagesOut = parts.filter(p => p.inlineData?.data).length;
+  const candidateTokens = meta?.candidatesTokenCount ?? 0;
+  const imageDetail = meta?.candidatesTokensDetails?.find(d => d.modality === MediaModality.IMAGE);
+  return {
+    kind,
+    model,
+    inputTokens: meta?.promptTokenCount ?? 0,
+    outputTokens: candidateTokens + (meta?.thoughtsTokenCount ?? 0),
+    imageOutputTokens: imageDetail?.tokenCount ?? (imagesOut > 0 ? candidateTokens : 0),
+    imagesIn,
+    imagesOut,
+    latencyMs: Math.round(performance.now() - startedAt),
+  };
+};
+
+const responseDiagnostics = (response: GenerateContentResponse): ResponseDiagnostics => {
+  const candidate = response.candidates?.[0];
+  const text = candidate?.content?.parts?.map(p => p.text || '').join('').trim();
+  return {
+    responseId: response.responseId,
+    modelVersion: response.modelVersion,
+    finishReason: candidate?.finishReason,
+    finishMessage: candidate?.finishMessage,
+    blockReason: response.promptFeedback?.blockReason,
+    blockReasonMessage: response.promptFeedback?.blockReasonMessage,
+    safetyRatings: candidate?.safetyRatings?.map(r => ({ category: r.category, probability: r.probability, blocked: r.blocked })),
+    usage: response.usageMetadata && { ...response.usageMetadata },
+    text: text ? text.slice(0, 500) : undefined,
+  };
+};
+
+// Finish reasons that mean the model refused rather than failed
+const REFUSALS = new Set(['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION', 'IMAGE_RECITATION']);
+
+// Calls the API and turns refusals into typed errors. SDK/transport errors are classified by status.
+const generate = async (operation: UsageKind, run: () => Promise<GenerateContentResponse>) => {
+  let response: GenerateContentResponse;
+  try {
+    response = await run();
+  } catch (err) {
+    throw toSwapError(err, { operation });
+  }
+  const diagnostics = responseDiagnostics(response);
+  if (diagnostics.blockReason) {
+    const reason = [diagnostics.blockReason, diagnostics.blockReasonMessage].filter(Boolean).join(': ');
+    throw new SwapError('safety', `Request blocked (${reason})`, { operation, response: diagnostics });
+  }
+  if (diagnostics.finishReason && REFUSALS.has(diagnostics.finishReason)) {
+    throw new SwapError('safety', `Generation stopped (${diagnostics.finishReason})`, { operation, response: diagnostics });
+  }
+  return { response, diagnostics };
+};
+
+export const analyzeFace = async (imageBase64: string, model: string = ModelType.GEMINI_FLASH_ANALYSIS, onUsage?: UsageSink): Promise<FaceAnalysisResult> => {
   const client = getClient();
   const optimizedImage = await resizeForAnalysis(imageBase64);
 
+  const landmarksSchema: Schema = { 
+    type: Type.OBJECT, 
+    properties: {
+      left_eye: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+      right_eye: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+      nose_tip: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+      mouth_center: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+      jawline: { type: Type.ARRAY, items: { type: Type.ARRAY, items: { type: Type.NUMBER } } }
+    } 
+  };
+
   const schema: Schema = {
     type: Type.OBJECT,
     properties: {
+      coordinate_system: { type: Type.STRING, format: 'enum', enum: [...COORDINATE_SYSTEMS] },
       face_box: { type: Type.ARRAY, items: { type: Type.NUMBER } },
-      landmarks: { 
-        type: Type.OBJECT, 
-        properties: {
-          left_eye: { type: Type.ARRAY, items: { type: Type.NUMBER } },
-          right_eye: { type: Type.ARRAY, items: { type: Type.NUMBER } },
-          nose_tip: { type: Type.ARRAY, items: { type: Type.NUMBER } },
-          mouth_center: { type: Type.ARRAY, items: { type: Type.NUMBER } },
-          jawline: { type: Type.ARRAY, items: { type: Type.ARRAY, items: { type: Type.NUMBER } } }
-        } 
+      landmarks: landmarksSchema,
+      faces: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            face_box: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+            landmarks: landmarksSchema,
+            confidence: { type: Type.NUMBER }
+          },
+          required: ["face_box"]
+        }
       },
       skin_tone: { type: Type.STRING },
       undertone: { type: Type.STRING },
       lighting: {
         type: Type.OBJECT,
         properties: {
-          direction: { type: Type.STRING },
+          direction: { type: Type.STRING, format: 'enum', enum: LIGHTING_DIRECTIONS },
           intensity: { type: Type.NUMBER },
           color_temperature: { type: Type.STRING }
         }
       },
       face_scale_ratio: { type: Type.NUMBER },
-      confidence: { type: Type.NUMBER }
+      confidence: { type: Type.NUMBER },
+      occlusions: { type: Type.ARRAY, items: { type: Type.STRING } }
     },
-    required: ["face_box", "skin_tone", "lighting", "landmarks"]
+    required: ["coordinate_system", "face_box", "skin_tone", "lighting", "landmarks", "faces"]
   };
 
-  const response = await client.models.generateContent({
-    // STRICTLY USING FLASH FOR ANALYSIS
-    model: 'gemini-3-flash-preview', 
+  const startedAt = performance.now();
+  const { response, diagnostics } = await generate('analysis', () => client.models.generateContent({
+    model,
     contents: {
       parts: [
-        { inlineData: { mimeType: "image/jpeg", data: stripBase64(optimizedImage) } },
-        { text: "Analyze the primary face. Output strict JSON." }
+        { inlineData: { mimeType: "image/jpeg", data: stripBase64(optimizedImage.dataUrl) } },
+        { text: [
+          "Detect EVERY face in the image and list them in `faces`, ordered left to right.",
+          "The top-level fields describe the primary (largest) face.",
+          "If there is no face, return an empty `faces` list and an empty face_box.",
+          "Give face_box as [ymin, xmin, ymax, xmax] and landmark points as [y, x], all normalized to 0-1000, and set coordinate_system to \"normalized_1000\".",
+          "confidence and lighting.intensity are 0-1.",
+          "List in `occlusions` anything covering part of the primary face (e.g. sunglasses, hand, hair, mask, shadow); empty if fully visible.",
+          "Omit a field rather than guessing. Output strict JSON."
+        ].join(" ") }
       ]
     },
     config: {
       responseMimeType: "application/json",
       responseSchema: schema,
     }
-  });
+  }));
+  onUsage?.(readUsage('analysis', model, response, 1, startedAt));
 
   const text = response.text;
-  if (!text) throw new Error("No analysis returned");
-  return JSON.parse(text) as FaceAnalysisResult;
+  if (!text) throw new SwapError('bad_response', `No analysis returned${diagnostics.finishReason ? ` (${diagnostics.finishReason})` : ''}`, { operation: 'analysis', response: diagnostics });
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new SwapError('bad_response', "Analysis was not valid JSON", { operation: 'analysis', response: diagnostics });
+  }
+  try {
+    return validateAnalysis(parsed, optimizedImage);
+  } catch (err) {
+    if (err instanceof SwapError) err.response = diagnostics;
+    throw err;
+  }
 };
 
-export const performFaceSwap = async (
-  sourceFacesBase64: string[], 
-  targetImageBase64: string,
-  settings: SwapSettings
-): Promise<string> => {
+const describeTone = (a: FaceAnalysisResult) => `${a.skin_tone || 'unknown'} skin, ${a.undertone || 'unknown'} undertone`;
+
+const describeLight = (a: FaceAnalysisResult) =>
+  `${a.lighting?.direction || 'unknown'} key light, intensity ${a.lighting?.intensity ?? 'unknown'}, ${a.lighting?.color_temperature || 'unknown'} temperature`;
+
+// Turns measured analyses into concrete instructions so skin/light matching isn't left to interpretation
+export const buildAnalysisGuidance = (request: SwapRequest): string[] => {
+  const { settings, sources, targetAnalysis: target } = request;
+  const measuredSources = sources.filter(s => s.analysis);
+  if (measuredSources.length === 0 && !target) return [];
+
+  const measured = {
+    sources: measuredSources.map(s => ({
+      identity: s.name, skin_tone: s.analysis!.skin_tone, undertone: s.analysis!.undertone, lighting: s.analysis!.lighting,
+    })),
+    target: target && {
+      face_box: target.face_box, face_scale_ratio: target.face_scale_ratio,
+      skin_tone: target.skin_tone, undertone: target.undertone, lighting: target.lighting,
+    },
+  };
+
+  const lines = [
+    "MEASURED ANALYSIS (face_box is [ymin, xmin, ymax, xmax] normalized to 0-1000):",
+    JSON.stringify(measured),
+  ];
+  const faceCount = target ? listFaces(target).length : 1;
+  const boxesFor = (faces: number[]) =>
+    target ? resolveTargetFaces(target, faces).map(i => JSON.stringify(faceView(target, i).face_box)).join(", ") : '';
+
+  if (target && faceCount > 1) {
+    const numbered = listFaces(target).map((f, i) => `#${i + 1} ${JSON.stringify(f.face_box)}`).join(", ");
+    const replaced = sources.flatMap(s => resolveTargetFaces(target, s.targetFaces));
+    lines.push(
+      `- FACE SELECTION: The Target contains ${faceCount} faces, numbered left to right: ${numbered}.`,
+      `  Replace ONLY face(s) ${replaced.map(i => `#${i + 1}`).join(", ")}. Every other face must stay exactly as it is.`
+    );
+  }
+  if (sources.length > 1 || faceCount > 1) {
+    sources.forEach(s => {
+      const faces = target ? resolveTargetFaces(target, s.targetFaces) : [];
+      lines.push(`- ASSIGNMENT: Identity "${s.name}" goes on Target face ${faces.map(i => `#${i + 1}`).join(", ") || 'primary'}.`);
+    });
+  }
+  if (settings.matchSkinTone && target) {
+    measuredSources.forEach(s => {
+      lines.push(`- Skin: "${s.name}" measures ${describeTone(s.analysis!)}; Target body measures ${describeTone(target)}. Grade the swapped face to the Target values.`);
+    });
+  }
+  if (settings.matchLighting && target) {
+    const shotWith = measuredSources.map(s => `"${s.name}": ${describeLight(s.analysis!)}`).join("; ");
+    lines.push(`- Lighting: Target scene has ${describeLight(target)}. Shade the swapped face with exactly this setup${shotWith ? ` (references were shot with ${shotWith})` : ''}.`);
+  }
+  if (target) {
+    const faceBoxes = sources.map(s => boxesFor(s.targetFaces)).join(", ");
+    if (settings.faceScaleLock === 'fixed') {
+      lines.push(
+        `- FACE SCALE LOCK: The swapped face must occupy exactly Target face_box ${faceBoxes} (face_scale_ratio ${target.face_scale_ratio}).`,
+        "  Do NOT enlarge or shrink the head relative to the Target body; match the Target chin, hairline and ear positions."
+      );
+    } else {
+      lines.push(`- Placement: Keep the swapped face inside Target face_box ${faceBoxes}.`);
+    }
+  }
+  return lines;
+};
+
+export const performFaceSwap = async (request: SwapRequest): Promise<string> => {
   const client = getClient();
+  const { sources, targetImage: targetImageBase64, settings } = request;
+  const guidance = buildAnalysisGuidance(request);
+  const referenceCount = sources.reduce((n, s) => n + s.images.length, 0);
 
   const promptParts = [
     "You are an expert VFX artist.",
-    "MISSION: Swap the face in the FINAL Target image with the identity provided in the Reference images.",
+    sources.length > 1
+      ? `MISSION: Swap faces in the FINAL Target image with the ${sources.length} identities provided in the Reference images.`
+      : "MISSION: Swap the face in the FINAL Target image with the identity provided in the Reference images.",
     "",
-    `INPUT CONTEXT: You have been provided with ${sourceFacesBase64.length} reference images of the Source Identity.`,
-    "Use ALL reference images to build a complete 3D understanding of the Source's facial structure, profiles, and unique features.",
+    `INPUT CONTEXT: You have been provided with ${referenceCount} reference images of ${sources.length > 1 ? sources.map(s => `"${s.name}"`).join(", ") : 'the Source Identity'}.`,
+    "Use ALL reference images of an identity to build a complete 3D understanding of its facial structure, profiles, and unique features.",
     "",
     "STRICT IDENTITY REQUIREMENTS:",
-    "1. LIKENESS: The output face must look EXACTLY like the Source identity.",
+    "1. LIKENESS: Each swapped face must look EXACTLY like its assigned Source identity.",
     "2. ANGLE HANDLING: If the Target is side-profile, use the side-profile Reference to ensure the nose and jawline are accurate.",
     "3. EYES: Strictly maintain the Source's eye shape and pupil distance.",
     "",
@@ -118,19 +281,27 @@ export const performFaceSwap = async (
     settings.matchLighting ? "- Relight Source to match Target scene." : "",
     ` - Skin Smoothness: ${settings.skinSmoothness}/10`,
     ` - Fidelity: ${settings.outputQuality}/100`,
+    settings.maskedComposite ? "- Change only the face and neck. Keep framing, background, clothing and hands exactly as in the Target." : "",
     "",
+    ...(guidance.length ? [...guidance, ""] : []),
     "Output only the final image."
   ];
 
+  // Fixed-size models reject imageSize
+  const imageSize = imageSizeFor(settings);
+
   // Prepare content parts
   const contentParts = [];
   
-  // 1. Add All Source Faces
-  sourceFacesBase64.forEach((face, index) => {
+  // 1. Add All Source Faces, labelled with their identity
+  let referenceIndex = 0;
+  sources.forEach(source => {
+    source.images.forEach(face => {
       contentParts.push({ 
           inlineData: { mimeType: "image/png", data: stripBase64(face) } 
       });
-      contentParts.push({ text: `Reference Image ${index + 1} (Source Identity)` });
+      contentParts.push({ text: `Reference Image ${++referenceIndex} (Source Identity "${source.name}")` });
+    });
   });
 
   // 2. Add Target Image
@@ -142,15 +313,18 @@ export const performFaceSwap = async (
   // 3. Add Prompt
   contentParts.push({ text: promptParts.join("\n") });
 
-  const response = await client.models.generateContent({
-    model: ModelType.GEMINI_3_PRO_IMAGE,
+  const startedAt = performance.now();
+  const { response, diagnostics } = await generate('swap', () => client.models.generateContent({
+    model: settings.swapModel,
     contents: {
       parts: contentParts
     },
     config: { 
-      imageConfig: { imageSize: "2K" } 
+      ...(imageSize ? { imageConfig: { imageSize } } : {}),
+      abortSignal: request.signal
     }
-  });
+  }));
+  request.onUsage?.(readUsage('swap', settings.swapModel, response, referenceCount + 1, startedAt));
 
   for (const part of response.candidates?.[0]?.content?.parts || []) {
     if (part.inlineData && part.inlineData.data) {
@@ -158,5 +332,15 @@ export const performFaceSwap = async (
     }
   }
   
-  throw new Error("No image generated");
-};
\ No newline at end of file
+  // Text instead of an image is often a soft refusal; the text is kept in the diagnostics
+  throw new SwapError('bad_response', `No image generated${diagnostics.finishReason ? ` (${diagnostics.finishReason})` : ''}`, { operation: 'swap', response: diagnostics });
+};
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  modelSelection: true,
+  swapModel: (settings) => settings.swapModel,
+  analyzeFace,
+  performFaceSwap,
+};
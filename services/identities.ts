@@ -0,0 +1,50 @@
+import { FaceAnalysisResult, ProcessedImage, SourceIdentity, SwapSource } from "../types";
+import { resolveTargetFaces } from "./faceMetrics";
+import { SwapError } from "./errors";
+
+export const createIdentity = (name: string, images: string[] = [], analysis?: FaceAnalysisResult): SourceIdentity => ({
+  id: Date.now().toString() + Math.random().toString(),
+  name,
+  images,
+  analysis,
+  createdAt: Date.now(),
+});
+
+export const nextIdentityName = (identities: SourceIdentity[]) => {
+  let n = identities.length + 1;
+  while (identities.some(i => i.name === `Identity ${n}`)) n++;
+  return `Identity ${n}`;
+};
+
+// Identity per replaced face: per-face assignment, then the target's identity, then the active one
+export const identityForFace = (target: ProcessedImage, faceIndex: number, activeIdentityId?: string) =>
+  target.faceIdentities?.[faceIndex] ?? target.identityId ?? activeIdentityId;
+
+// Identities the target would currently get, without failing on unassigned faces
+export const assignedIdentityIds = (target: ProcessedImage, activeIdentityId?: string): string[] => {
+  const faces = target.analysis ? resolveTargetFaces(target.analysis, target.selectedFaces) : [-1];
+  return [...new Set(faces.map(face => identityForFace(target, face, activeIdentityId)))].filter((id): id is string => !!id);
+};
+
+// Groups the target's selected faces by assigned identity. Throws when a face has no usable identity.
+export const resolveSwapSources = (
+  target: ProcessedImage,
+  identities: SourceIdentity[],
+  activeIdentityId?: string
+): SwapSource[] => {
+  const faces = target.analysis ? resolveTargetFaces(target.analysis, target.selectedFaces) : [];
+  const byIdentity = new Map<string, number[]>();
+
+  (faces.length ? faces : [-1]).forEach(face => {
+    const identityId = identityForFace(target, face, activeIdentityId);
+    const identity = identities.find(i => i.id === identityId);
+    if (!identity) throw new SwapError('invalid_input', "No source identity assigned");
+    if (identity.images.length === 0) throw new SwapError('invalid_input', `Identity "${identity.name}" has no reference images`);
+    byIdentity.set(identity.id, [...(byIdentity.get(identity.id) || []), ...(face >= 0 ? [face] : [])]);
+  });
+
+  return Array.from(byIdentity, ([identityId, targetFaces]) => {
+    const identity = identities.find(i => i.id === identityId)!;
+    return { identityId, name: identity.name, images: identity.images, analysis: identity.analysis, targetFaces };
+  });
+};
@@ -0,0 +1,23 @@
+import { ImageProvider, ProviderId, SwapRequest, UsageSink } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockService";
+
+const PROVIDERS: Record<ProviderId, ImageProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Chosen once at startup: ?provider=mock in the URL wins over IMAGE_PROVIDER from .env.local
+const resolveProviderId = (): ProviderId => {
+  const fromUrl = new URLSearchParams(window.location.search).get('provider');
+  const requested = fromUrl || process.env.IMAGE_PROVIDER;
+  if (requested && requested in PROVIDERS) return requested as ProviderId;
+  if (requested) console.warn(`Unknown image provider "${requested}", falling back to gemini`);
+  return 'gemini';
+};
+
+export const activeProvider: ImageProvider = PROVIDERS[resolveProviderId()];
+
+export const analyzeFace = (imageBase64: string, model?: string, onUsage?: UsageSink) => activeProvider.analyzeFace(imageBase64, model, onUsage);
+
+export const performFaceSwap = (request: SwapRequest) => activeProvider.performFaceSwap(request);
@@ -0,0 +1,69 @@
+export const stripBase64 = (dataUrl: string) => {
+  return dataUrl.split(',')[1] || dataUrl;
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(stripBase64(dataUrl));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const mimeType = dataUrl.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+  return new Blob([dataUrlToBytes(dataUrl)], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const hashBytes = async (buffer: ArrayBuffer | Uint8Array): Promise<string> => {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const hashDataUrl = (dataUrl: string): Promise<string> => hashBytes(dataUrlToBytes(dataUrl));
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Image load failed"));
+    img.src = src;
+  });
+};
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+  return { canvas, ctx };
+};
+
+// face_box convention shared by every provider: [ymin, xmin, ymax, xmax] normalized to 0-1000
+export const boxToPixels = (box: number[], width: number, height: number) => {
+  const [ymin, xmin, ymax, xmax] = box;
+  return {
+    x: (xmin / 1000) * width,
+    y: (ymin / 1000) * height,
+    width: ((xmax - xmin) / 1000) * width,
+    height: ((ymax - ymin) / 1000) * height,
+  };
+};
+
+// Small JPEG preview for lists (project switcher); keeps aspect ratio within maxSize
+export const createThumbnail = async (dataUrl: string, maxSize = 160): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+  const { canvas, ctx } = createCanvas(img.width * scale, img.height * scale);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
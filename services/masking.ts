@@ -0,0 +1,142 @@
+import { FaceAnalysisResult, SwapRequest } from "../types";
+import { boxToPixels, createCanvas, loadImage } from "./imageUtils";
+import { landmarkGeometry, listFaces, resolveTargetFaces } from "./faceMetrics";
+import { blendMasked, FaceRegion, matchSkinColor, poissonBlend } from "./colorTransfer";
+
+const FACE_MARGIN = 0.12; // ellipse grows past the box so hairline and ears blend inside the mask
+const NECK_WIDTH = 0.6; // of face width
+const NECK_DROP = 0.45; // below the chin, of face height
+
+// Replaced faces in pixel coordinates. The chin comes from the jawline when available, since chins
+// often extend past the detected box.
+export const faceRegions = (analysis: FaceAnalysisResult, faces: number[], width: number, height: number): (FaceRegion & { jaw: { x: number; y: number }[] })[] => {
+  const detected = listFaces(analysis);
+  return faces.flatMap(index => {
+    const face = detected[index];
+    if (!face || face.face_box?.length !== 4) return [];
+    const box = boxToPixels(face.face_box, width, height);
+    if (box.width <= 0 || box.height <= 0) return [];
+    const jaw = landmarkGeometry(face.landmarks).jawline
+      .map(([y, x]) => ({ x: (x / 1000) * width, y: (y / 1000) * height }))
+      .sort((a, b) => a.x - b.x);
+    const hasJaw = jaw.length >= 3;
+    return [{
+      ...box,
+      chinY: hasJaw ? Math.max(...jaw.map(p => p.y)) : box.y + box.height,
+      neckX: hasJaw ? (jaw[0].x + jaw[jaw.length - 1].x) / 2 : box.x + box.width / 2,
+      jaw: hasJaw ? jaw : [],
+    }];
+  });
+};
+
+// Auto edit region for the given faces, painted opaque with the current fill style: face ellipse,
+// the jawline closed over the top of the box, and the neck
+export const drawAutoMask = (ctx: CanvasRenderingContext2D, analysis: FaceAnalysisResult, faces: number[], width: number, height: number) => {
+  for (const region of faceRegions(analysis, faces, width, height)) {
+    const { x, y, width: w, height: h, jaw } = region;
+    ctx.beginPath();
+    ctx.ellipse(x + w / 2, y + h / 2, (w / 2) * (1 + FACE_MARGIN), (h / 2) * (1 + FACE_MARGIN), 0, 0, Math.PI * 2);
+    ctx.fill();
+
+    if (jaw.length) {
+      ctx.beginPath();
+      ctx.moveTo(Math.min(x, jaw[0].x), y);
+      jaw.forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.lineTo(Math.max(x + w, jaw[jaw.length - 1].x), y);
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    const neckWidth = w * NECK_WIDTH;
+    ctx.fillRect(region.neckX - neckWidth / 2, region.chinY - h * 0.15, neckWidth, h * (NECK_DROP + 0.15));
+  }
+};
+
+// Edit region at the target's pixel size as 0-255 coverage: the edited mask when present, else the
+// auto mask for the faces being replaced
+export const renderMask = async (width: number, height: number, analysis?: FaceAnalysisResult, faces: number[] = [], maskUrl?: string) => {
+  const { canvas, ctx } = createCanvas(width, height);
+  if (maskUrl) {
+    ctx.drawImage(await loadImage(maskUrl), 0, 0, canvas.width, canvas.height);
+  } else if (analysis) {
+    ctx.fillStyle = '#ffffff';
+    drawAutoMask(ctx, analysis, faces, canvas.width, canvas.height);
+  }
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const coverage = new Uint8ClampedArray(canvas.width * canvas.height);
+  for (let i = 0; i < coverage.length; i++) coverage[i] = data[i * 4 + 3];
+  return coverage;
+};
+
+// One horizontal or vertical box-blur pass with clamped edges
+const blurPass = (src: Uint8ClampedArray, dst: Uint8ClampedArray, width: number, height: number, radius: number, horizontal: boolean) => {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const stride = horizontal ? 1 : width;
+  const span = radius * 2 + 1;
+  for (let line = 0; line < lines; line++) {
+    const start = horizontal ? line * width : line;
+    const at = (i: number) => src[start + Math.min(length - 1, Math.max(0, i)) * stride];
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) sum += at(i);
+    for (let i = 0; i < length; i++) {
+      dst[start + i * stride] = Math.round(sum / span);
+      sum += at(i + radius + 1) - at(i - radius);
+    }
+  }
+};
+
+// Three box blurs approximate a gaussian; the soft edge reaches about `radius` px past the hard mask
+export const featherMask = (mask: Uint8ClampedArray, width: number, height: number, radius: number) => {
+  const box = Math.round(radius / 3);
+  if (box < 1) return mask;
+  let a = Uint8ClampedArray.from(mask), b = new Uint8ClampedArray(mask.length);
+  for (let pass = 0; pass < 3; pass++) {
+    blurPass(a, b, width, height, box, true);
+    blurPass(b, a, width, height, box, false);
+  }
+  return a;
+};
+
+const readPixels = (img: HTMLImageElement, width: number, height: number) => {
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+// Post-processing of one generated image, in the target's pixel frame:
+// 1. color match (optional): swapped skin is graded toward the target's neck in LAB
+// 2. seamless blend (optional, masked only): the region is corrected to meet the target at the mask edge
+// 3. masked composite: generated pixels inside the feathered mask, untouched target pixels outside
+// Without an analysis or edited mask there is no region to work on, so the image is returned as is.
+export const finishOutput = async (request: SwapRequest, generatedUrl: string): Promise<string> => {
+  const { targetImage, targetAnalysis, mask, settings } = request;
+  const colorMatch = settings.colorMatch && !!targetAnalysis;
+  if (!settings.maskedComposite && !colorMatch) return generatedUrl;
+  if (!mask && !targetAnalysis) return generatedUrl;
+
+  const [original, generated] = await Promise.all([loadImage(targetImage), loadImage(generatedUrl)]);
+  const width = original.naturalWidth, height = original.naturalHeight;
+  const faces = targetAnalysis
+    ? [...new Set(request.sources.flatMap(s => resolveTargetFaces(targetAnalysis, s.targetFaces)))]
+    : [];
+  const hard = await renderMask(width, height, targetAnalysis, faces, mask);
+  const soft = featherMask(hard, width, height, (settings.maskFeather / 100) * Math.min(width, height));
+
+  // Models may return a different resolution of the same framing
+  const edit = readPixels(generated, width, height);
+  const base = readPixels(original, width, height);
+  if (colorMatch) matchSkinColor(edit, base, faceRegions(targetAnalysis!, faces, width, height), soft);
+
+  let output: ImageData = edit;
+  if (settings.maskedComposite) {
+    if (settings.seamlessBlend) poissonBlend(edit, base, soft);
+    // Uncovered pixels are never written and the result is PNG, so they stay bit-identical to the decoded target
+    blendMasked(base, edit, soft);
+    output = base;
+  }
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.putImageData(output, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,148 @@
+import { FaceAnalysisResult, ImageProvider, Landmarks, Point, SwapRequest } from "../types";
+import { boxToPixels, createCanvas, loadImage } from "./imageUtils";
+import { faceView, resolveTargetFaces } from "./faceMetrics";
+import { SwapError } from "./errors";
+
+// Offline stand-in for QA/demo machines: no network, same output for the same inputs.
+const MOCK_LATENCY_MS = 300;
+const SAMPLE_DIM = 64;
+
+// Settles early when the job is cancelled, like an aborted request to the real provider
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new Error("Swap aborted"));
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new Error("Swap aborted"));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Portrait heuristic: one face centered horizontally in the upper half of the frame
+const estimateFaceBox = (width: number, height: number): number[] => {
+  const faceW = Math.min(width, height) * 0.4;
+  const faceH = faceW * 1.3;
+  const cx = width / 2;
+  const cy = height * 0.38;
+  const clamp = (v: number) => Math.round(Math.min(1000, Math.max(0, v)));
+  return [
+    clamp(((cy - faceH / 2) / height) * 1000),
+    clamp(((cx - faceW / 2) / width) * 1000),
+    clamp(((cy + faceH / 2) / height) * 1000),
+    clamp(((cx + faceW / 2) / width) * 1000),
+  ];
+};
+
+const describeSkin = (r: number, g: number, b: number) => {
+  const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+  const skin_tone = luma > 190 ? 'Fair' : luma > 150 ? 'Light' : luma > 110 ? 'Medium' : luma > 70 ? 'Tan' : 'Deep';
+  const undertone = r - b > 40 ? 'Warm' : b - r > 10 ? 'Cool' : 'Neutral';
+  return { skin_tone, undertone };
+};
+
+export const analyzeFace = async (imageBase64: string): Promise<FaceAnalysisResult> => {
+  const img = await loadImage(imageBase64);
+  const face_box = estimateFaceBox(img.width, img.height);
+  const [ymin, xmin, ymax, xmax] = face_box;
+  const w = xmax - xmin;
+  const h = ymax - ymin;
+
+  // Sample a downscaled copy so results don't depend on the source resolution
+  const { ctx } = createCanvas(SAMPLE_DIM, SAMPLE_DIM);
+  ctx.drawImage(img, 0, 0, SAMPLE_DIM, SAMPLE_DIM);
+  const box = boxToPixels(face_box, SAMPLE_DIM, SAMPLE_DIM);
+  const pixels = ctx.getImageData(Math.floor(box.x), Math.floor(box.y), Math.max(1, Math.floor(box.width)), Math.max(1, Math.floor(box.height))).data;
+
+  let r = 0, g = 0, b = 0, left = 0, right = 0;
+  const rowWidth = Math.max(1, Math.floor(box.width));
+  for (let i = 0; i < pixels.length; i += 4) {
+    r += pixels[i]; g += pixels[i + 1]; b += pixels[i + 2];
+    const luma = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+    if ((i / 4) % rowWidth < rowWidth / 2) left += luma; else right += luma;
+  }
+  const count = Math.max(1, pixels.length / 4);
+  r /= count; g /= count; b /= count;
+  const balance = (left - right) / Math.max(1, left + right);
+
+  const landmarks: Landmarks = {
+    left_eye: [ymin + h * 0.4, xmin + w * 0.3],
+    right_eye: [ymin + h * 0.4, xmin + w * 0.7],
+    nose_tip: [ymin + h * 0.6, xmin + w * 0.5],
+    mouth_center: [ymin + h * 0.78, xmin + w * 0.5],
+    jawline: [0, 0.25, 0.5, 0.75, 1].map((t): Point => [ymin + h * (0.5 + 0.5 * Math.sin(Math.PI * t)), xmin + w * t]),
+  };
+
+  return {
+    face_box,
+    landmarks,
+    faces: [{ face_box, landmarks, confidence: 0.5 }],
+    ...describeSkin(r, g, b),
+    lighting: {
+      direction: balance > 0.05 ? 'left' : balance < -0.05 ? 'right' : 'front',
+      intensity: Math.round(((r + g + b) / 765) * 100) / 100,
+      color_temperature: r > b + 15 ? 'warm' : b > r + 15 ? 'cool' : 'neutral',
+    },
+    face_scale_ratio: Math.round(((w * h) / 1000000) * 1000) / 1000,
+    confidence: 0.5,
+  };
+};
+
+// Composites each identity's first reference crop onto its assigned target face_box(es) with a feathered ellipse
+export const performFaceSwap = async (request: SwapRequest): Promise<string> => {
+  if (!request.sources.some(s => s.images.length > 0)) throw new SwapError('invalid_input', "No source image provided");
+
+  const [target, targetAnalysis] = await Promise.all([
+    loadImage(request.targetImage),
+    request.targetAnalysis ?? analyzeFace(request.targetImage),
+  ]);
+
+  const out = createCanvas(target.width, target.height);
+  out.ctx.drawImage(target, 0, 0);
+
+  for (const swapSource of request.sources) {
+    const [sourceImage] = swapSource.images;
+    if (!sourceImage) continue;
+    const [source, sourceAnalysis] = await Promise.all([
+      loadImage(sourceImage),
+      swapSource.analysis ?? analyzeFace(sourceImage),
+    ]);
+    const src = boxToPixels(sourceAnalysis.face_box, source.width, source.height);
+
+    resolveTargetFaces(targetAnalysis, swapSource.targetFaces).forEach(index => {
+      const dst = boxToPixels(faceView(targetAnalysis, index).face_box, target.width, target.height);
+      out.ctx.drawImage(featheredCrop(source, src, dst.width, dst.height), dst.x, dst.y, dst.width, dst.height);
+    });
+  }
+
+  await delay(MOCK_LATENCY_MS, request.signal);
+  return out.canvas.toDataURL('image/png');
+};
+
+const featheredCrop = (source: HTMLImageElement, src: ReturnType<typeof boxToPixels>, width: number, height: number) => {
+  const face = createCanvas(width, height);
+  face.ctx.drawImage(source, src.x, src.y, src.width, src.height, 0, 0, face.canvas.width, face.canvas.height);
+  const radius = Math.max(face.canvas.width, face.canvas.height) / 2;
+  const feather = face.ctx.createRadialGradient(0, 0, radius * 0.7, 0, 0, radius);
+  feather.addColorStop(0, 'rgba(0,0,0,1)');
+  feather.addColorStop(1, 'rgba(0,0,0,0)');
+  face.ctx.globalCompositeOperation = 'destination-in';
+  face.ctx.save();
+  face.ctx.translate(face.canvas.width / 2, face.canvas.height / 2);
+  face.ctx.scale(face.canvas.width / (2 * radius), face.canvas.height / (2 * radius));
+  face.ctx.fillStyle = feather;
+  face.ctx.fillRect(-radius, -radius, radius * 2, radius * 2);
+  face.ctx.restore();
+  return face.canvas;
+};
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Offline Mock (local compositor)',
+  modelSelection: false,
+  swapModel: () => 'local-compositor',
+  analyzeFace,
+  performFaceSwap,
+};
@@ -0,0 +1,25 @@
+import { SettingsPreset, SwapSettings } from "../types";
+import { imageSizeFor, modelLabel } from "./engine";
+
+export const createPreset = (name: string, settings: SwapSettings): SettingsPreset => ({
+  id: Date.now().toString() + Math.random().toString(),
+  name,
+  settings: { ...settings },
+  updatedAt: Date.now(),
+});
+
+export const effectiveSettings = (global: SwapSettings, override?: Partial<SwapSettings>): SwapSettings =>
+  override ? { ...global, ...override } : global;
+
+export const describeSettings = (s: SwapSettings) => [
+  ...(s.swapModel ? [[modelLabel(s.swapModel), imageSizeFor(s)].filter(Boolean).join(' ')] : []),
+  s.preserveHair ? 'target hair' : 'source hair',
+  s.matchSkinTone ? 'skin matched' : 'source skin',
+  s.matchLighting ? 'relit' : 'source light',
+  s.faceScaleLock === 'fixed' ? `scale locked ±${Math.round(s.faceScaleTolerance * 100)}%` : 'scale auto',
+  `smoothness ${s.skinSmoothness}`,
+  `fidelity ${s.outputQuality}`,
+  s.maskedComposite ? `face region only (feather ${s.maskFeather}%)` : 'full frame',
+  ...(s.colorMatch ? ['color matched'] : []),
+  ...(s.maskedComposite && s.seamlessBlend ? ['seamless blend'] : []),
+].join(' · ');
@@ -0,0 +1,92 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SWAP_SETTINGS } from '../constants';
+import { Project } from '../types';
+import { ArchiveManifest, ARCHIVE_SCHEMA_VERSION, exportProjectArchive, importProjectArchive } from './projectArchive';
+import { StoredSession } from './storageService';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+const JPEG = 'data:image/jpeg;base64,/9j/4AAQ';
+
+const project: Project = { id: 'p', name: 'Campaign', createdAt: 1, updatedAt: 2 };
+
+const session: StoredSession = {
+  settings: DEFAULT_SWAP_SETTINGS,
+  budget: 5,
+  activeIdentityId: 'i1',
+  identities: [{ id: 'i1', name: 'Model A', images: [PNG], createdAt: 0 }],
+  targets: [
+    {
+      id: 't1', originalUrl: JPEG, processedUrl: PNG, status: 'completed', identityId: 'i1',
+      preferredGenerationId: 'g1',
+      generations: [{ id: 'g1', url: PNG, settings: DEFAULT_SWAP_SETTINGS, model: 'mock', createdAt: 0, identityIds: ['i1'] }],
+    },
+    { id: 't2', originalUrl: JPEG, status: 'processing' },
+  ],
+};
+
+const manifestOf = async (archive: Blob) =>
+  JSON.parse(await (await JSZip.loadAsync(await archive.arrayBuffer())).file('manifest.json')!.async('string')) as ArchiveManifest;
+
+const archiveWith = async (manifest: object) => {
+  const zip = new JSZip();
+  zip.file('manifest.json', JSON.stringify(manifest));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+describe('exportProjectArchive', () => {
+  it('stores each image once and references it by path', async () => {
+    const archive = await exportProjectArchive(project, session);
+    const zip = await JSZip.loadAsync(await archive.arrayBuffer());
+    const manifest = await manifestOf(archive);
+
+    expect(Object.keys(zip.files).filter(name => !zip.files[name].dir && name.startsWith('images/'))).toHaveLength(2);
+    expect(manifest.targets[0].processedUrl).toBe(manifest.identities[0].images[0]);
+    expect(manifest.targets[0].originalUrl).toMatch(/^images\/.+\.jpg$/);
+    expect(manifest.targets[1].status).toBe('idle');
+  });
+});
+
+describe('importProjectArchive', () => {
+  it('restores images and gives targets and identities fresh ids', async () => {
+    const { name, session: imported } = await importProjectArchive(await exportProjectArchive(project, session));
+    const [identity] = imported.identities;
+    const [target] = imported.targets;
+
+    expect(name).toBe('Campaign');
+    expect(imported.budget).toBe(5);
+    expect(identity.images).toEqual([PNG]);
+    expect(target).toMatchObject({ originalUrl: JPEG, processedUrl: PNG });
+    expect(identity.id).not.toBe('i1');
+    expect(target.id).not.toBe('t1');
+    expect(imported.activeIdentityId).toBe(identity.id);
+    expect(target.identityId).toBe(identity.id);
+    expect(target.generations?.[0].identityIds).toEqual([identity.id]);
+  });
+
+  it('refuses files that are not archives', async () => {
+    await expect(importProjectArchive(new Blob(['not a zip']))).rejects.toThrow(/could not read zip/);
+    await expect(importProjectArchive(await archiveWith({ schemaVersion: 1 }))).rejects.toThrow(/malformed/);
+  });
+
+  it('reports a broken or incomplete manifest as malformed', async () => {
+    const zip = new JSZip();
+    zip.file('manifest.json', '{"schemaVersion": 1, "targets": [');
+    await expect(importProjectArchive(await zip.generateAsync({ type: 'blob' }))).rejects.toThrow('Project archive manifest is malformed');
+
+    const valid = { schemaVersion: 1, project: { name: 'x', createdAt: 0 }, identities: [], targets: [] };
+    await expect(importProjectArchive(await archiveWith({ ...valid, project: undefined }))).rejects.toThrow(/malformed/);
+    await expect(importProjectArchive(await archiveWith({ ...valid, targets: [{ id: 't', status: 'idle' }] }))).rejects.toThrow(/malformed/);
+    await expect(importProjectArchive(await archiveWith({ ...valid, identities: [null] }))).rejects.toThrow(/malformed/);
+  });
+
+  it('refuses archives from a newer schema', async () => {
+    const newer = { schemaVersion: ARCHIVE_SCHEMA_VERSION + 1, targets: [], identities: [] };
+    await expect(importProjectArchive(await archiveWith(newer))).rejects.toThrow(/schema v2/);
+  });
+
+  it('names the missing image when the archive is incomplete', async () => {
+    const manifest = { schemaVersion: 1, project: { name: 'x', createdAt: 0 }, identities: [], targets: [{ id: 't', status: 'idle', originalUrl: 'images/gone.png' }] };
+    await expect(importProjectArchive(await archiveWith(manifest))).rejects.toThrow(/images\/gone\.png/);
+  });
+});
@@ -0,0 +1,163 @@
+import JSZip from 'jszip';
+import { Generation, ProcessedImage, Project, SourceIdentity, SwapSettings } from '../types';
+import { hashDataUrl, stripBase64 } from './imageUtils';
+import { StoredSession } from './storageService';
+
+// Bump when the manifest shape changes; the importer refuses archives from a newer schema
+export const ARCHIVE_SCHEMA_VERSION = 1;
+export const ARCHIVE_EXTENSION = '.gfa.zip';
+
+const MANIFEST_PATH = 'manifest.json';
+const IMAGES_DIR = 'images';
+
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+const MIME_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+// Same shapes as the stored session, with image fields replaced by paths inside the archive
+export interface ArchiveManifest {
+  schemaVersion: number;
+  exportedAt: number;
+  project: { name: string; createdAt: number };
+  settings?: SwapSettings;
+  budget?: number;
+  activeIdentityId?: string;
+  identities: SourceIdentity[];
+  targets: ProcessedImage[];
+}
+
+// Every original, source reference and generation, each image stored once by content hash
+export const exportProjectArchive = async (project: Project, session: StoredSession): Promise<Blob> => {
+  const zip = new JSZip();
+  const images = zip.folder(IMAGES_DIR)!;
+  const paths = new Map<string, string>(); // data URL -> archive path
+
+  const toPath = async (url?: string) => {
+    if (!url || !url.startsWith('data:')) return url;
+    let path = paths.get(url);
+    if (!path) {
+      const mimeType = url.match(/^data:([^;,]+)/)?.[1] || 'image/png';
+      const name = `${await hashDataUrl(url)}.${EXTENSIONS[mimeType] || 'png'}`;
+      images.file(name, stripBase64(url), { base64: true });
+      path = `${IMAGES_DIR}/${name}`;
+      paths.set(url, path);
+    }
+    return path;
+  };
+
+  const identities = await Promise.all(session.identities.map(async identity => ({
+    ...identity,
+    images: (await Promise.all(identity.images.map(toPath))) as string[],
+  })));
+  const targets = await Promise.all(session.targets.map(async target => ({
+    ...target,
+    // Nothing is running inside an archive
+    status: target.status === 'processing' ? (target.generations?.length ? 'completed' : 'idle') : target.status,
+    originalUrl: (await toPath(target.originalUrl))!,
+    processedUrl: await toPath(target.processedUrl),
+    maskUrl: await toPath(target.maskUrl),
+    generations: target.generations && await Promise.all(target.generations.map(async (g): Promise<Generation> => ({ ...g, url: (await toPath(g.url))! }))),
+  } as ProcessedImage)));
+
+  const manifest: ArchiveManifest = {
+    schemaVersion: ARCHIVE_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    project: { name: project.name, createdAt: project.createdAt },
+    settings: session.settings,
+    budget: session.budget,
+    activeIdentityId: session.activeIdentityId,
+    identities,
+    targets,
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+const newId = () => Date.now().toString() + Math.random().toString();
+
+// Archives can be imported more than once (or next to the project they came from),
+// so every target and identity gets a fresh id with references remapped
+const reassignIds = (session: StoredSession): StoredSession => {
+  const identityIds = new Map(session.identities.map(i => [i.id, newId()]));
+  const remap = (id?: string) => id && (identityIds.get(id) ?? id);
+
+  return {
+    ...session,
+    activeIdentityId: remap(session.activeIdentityId),
+    identities: session.identities.map(i => ({ ...i, id: identityIds.get(i.id)! })),
+    targets: session.targets.map(t => ({
+      ...t,
+      id: newId(),
+      identityId: remap(t.identityId),
+      faceIdentities: t.faceIdentities && Object.fromEntries(Object.entries(t.faceIdentities).map(([face, id]) => [face, remap(id)!])),
+      generations: t.generations?.map(g => ({ ...g, identityIds: g.identityIds?.map(id => remap(id)!) })),
+    })),
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const malformed = () => new Error("Project archive manifest is malformed");
+
+// Checks the version first (a newer schema may be shaped differently), then every key the importer reads
+const parseManifest = (text: string): ArchiveManifest => {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(text);
+  } catch {
+    throw malformed();
+  }
+  if (!isRecord(manifest) || typeof manifest.schemaVersion !== 'number') throw malformed();
+  if (manifest.schemaVersion > ARCHIVE_SCHEMA_VERSION) {
+    throw new Error(`Project archive uses schema v${manifest.schemaVersion}; this version supports up to v${ARCHIVE_SCHEMA_VERSION}`);
+  }
+  const { project, targets, identities } = manifest;
+  if (!isRecord(project) || typeof project.name !== 'string') throw malformed();
+  if (!Array.isArray(targets) || !targets.every(t => isRecord(t) && typeof t.id === 'string' && typeof t.originalUrl === 'string')) throw malformed();
+  if (!Array.isArray(identities) || !identities.every(i => isRecord(i) && typeof i.id === 'string' && Array.isArray(i.images))) throw malformed();
+  return manifest as unknown as ArchiveManifest;
+};
+
+export const importProjectArchive = async (file: Blob): Promise<{ name: string; session: StoredSession }> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+  } catch {
+    throw new Error("Not a project archive (could not read zip)");
+  }
+
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) throw new Error("Not a project archive (manifest.json missing)");
+
+  const manifest = parseManifest(await manifestFile.async('string'));
+
+  const urls = new Map<string, string>(); // archive path -> data URL
+  const toUrl = async (path?: string) => {
+    if (!path || path.startsWith('data:')) return path;
+    let url = urls.get(path);
+    if (!url) {
+      const entry = zip.file(path);
+      if (!entry) throw new Error(`Project archive is missing ${path}`);
+      const mimeType = MIME_TYPES[path.split('.').pop()!.toLowerCase()] || 'image/png';
+      url = `data:${mimeType};base64,${await entry.async('base64')}`;
+      urls.set(path, url);
+    }
+    return url;
+  };
+
+  const identities = await Promise.all(manifest.identities.map(async identity => ({
+    ...identity,
+    images: (await Promise.all(identity.images.map(toUrl))) as string[],
+  })));
+  const targets = await Promise.all(manifest.targets.map(async target => ({
+    ...target,
+    originalUrl: (await toUrl(target.originalUrl))!,
+    processedUrl: await toUrl(target.processedUrl),
+    maskUrl: await toUrl(target.maskUrl),
+    generations: target.generations && await Promise.all(target.generations.map(async g => ({ ...g, url: (await toUrl(g.url))! }))),
+  })));
+
+  return {
+    name: manifest.project.name || 'Imported Project',
+    session: reassignIds({ targets, identities, activeIdentityId: manifest.activeIdentityId, settings: manifest.settings, budget: manifest.budget }),
+  };
+};
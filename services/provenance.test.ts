@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { Provenance } from '../types';
+import { buildXmp, embedProvenance } from './provenance';
+
+const provenance: Provenance = {
+  software: 'Gemini Face Architect',
+  model: 'gemini-3-pro-image-preview',
+  identityIds: ['i1', 'i2'],
+  targetId: 't1',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  disclosure: 'AI-edited: face replaced by "Model A" & others',
+};
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+const text = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+const png = () => {
+  const bytes = new Uint8Array(8 + 25 + 12);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(8, 13);
+  bytes.set([0x49, 0x48, 0x44, 0x52], 12); // IHDR
+  bytes.set([0x49, 0x45, 0x4e, 0x44], 37); // IEND
+  return bytes;
+};
+
+// Walks the chunk list after the signature
+const pngChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  for (let offset = 8; offset < bytes.length;) {
+    const length = view.getUint32(offset);
+    chunks.push({ type: text(bytes.subarray(offset + 4, offset + 8)), data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+describe('buildXmp', () => {
+  it('escapes text and declares the IPTC source type', () => {
+    const xmp = buildXmp(provenance);
+    expect(xmp).toContain('&quot;Model A&quot; &amp; others');
+    expect(xmp).toContain('gfa:SourceIdentities="i1,i2"');
+    expect(xmp).toContain('compositeWithTrainedAlgorithmicMedia');
+  });
+});
+
+describe('embedProvenance', () => {
+  it('inserts text chunks right after IHDR in a PNG', async () => {
+    const out = await bytesOf(await embedProvenance(new Blob([png()], { type: 'image/png' }), provenance));
+    const chunks = pngChunks(out);
+    expect(chunks.map(c => c.type)).toEqual(['IHDR', 'tEXt', 'iTXt', 'iTXt', 'iTXt', 'IEND']);
+    expect(text(chunks[1].data)).toBe('Software\0Gemini Face Architect');
+    expect(text(chunks[4].data)).toContain('"targetId":"t1"');
+  });
+
+  it('adds XMP after the JFIF header of a JPEG', async () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xd9]);
+    const out = await bytesOf(await embedProvenance(new Blob([jpeg], { type: 'image/jpeg' }), provenance));
+    expect([...out.subarray(0, 8)]).toEqual([...jpeg.subarray(0, 8)]);
+    expect([out[8], out[9]]).toEqual([0xff, 0xe1]);
+    const length = (out[10] << 8) | out[11];
+    expect(text(out.subarray(12, 12 + 29))).toBe('http://ns.adobe.com/xap/1.0/\0');
+    expect([out[10 + length], out[11 + length]]).toEqual([0xff, 0xfe]);
+    expect([...out.subarray(-2)]).toEqual([0xff, 0xd9]);
+  });
+
+  it('upgrades a simple WebP to the extended layout with an XMP chunk', async () => {
+    // VP8L header for a 3×2 image: signature byte, then 14-bit width-1 and height-1
+    const vp8l = new Uint8Array([0x2f, 0x02, 0x40, 0x00, 0x00]);
+    const webp = new Uint8Array(20 + vp8l.length + 1);
+    webp.set(new TextEncoder().encode('RIFF'));
+    new DataView(webp.buffer).setUint32(4, webp.length - 8, true);
+    webp.set(new TextEncoder().encode('WEBPVP8L'), 8);
+    new DataView(webp.buffer).setUint32(16, vp8l.length, true);
+    webp.set(vp8l, 20);
+
+    const out = await bytesOf(await embedProvenance(new Blob([webp], { type: 'image/webp' }), provenance));
+    const view = new DataView(out.buffer);
+    expect(view.getUint32(4, true)).toBe(out.length - 8);
+    expect(text(out.subarray(12, 16))).toBe('VP8X');
+    expect(out[20] & 0x04).toBe(0x04);
+    expect((out[24] | (out[25] << 8)) + 1).toBe(3);
+    expect((out[27] | (out[28] << 8)) + 1).toBe(2);
+    expect(text(out.subarray(30, 34))).toBe('VP8L');
+    expect(text(out)).toContain('XMP ');
+  });
+
+  it('rejects formats it cannot write metadata into', async () => {
+    await expect(embedProvenance(new Blob([], { type: 'image/gif' }), provenance)).rejects.toThrow(/image\/gif/);
+  });
+});
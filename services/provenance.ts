@@ -0,0 +1,184 @@
+import { Provenance } from '../types';
+import { WATERMARK_TEXT } from '../constants';
+
+// IPTC term for media edited by compositing with a trained model
+const DIGITAL_SOURCE_TYPE = 'http://cv.iptc.org/newscodes/digitalsourcetype/compositeWithTrainedAlgorithmicMedia';
+const PROVENANCE_NS = 'urn:gemini-architect:provenance:1.0#';
+const PROVENANCE_KEY = 'GeminiArchitect:Provenance';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+const encoder = new TextEncoder();
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const buildXmp = (p: Provenance) => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"
+    xmlns:gfa="${PROVENANCE_NS}"
+    xmp:CreatorTool="${escapeXml(`${p.software} (${p.model})`)}"
+    xmp:CreateDate="${escapeXml(p.createdAt)}"
+    Iptc4xmpExt:DigitalSourceType="${DIGITAL_SOURCE_TYPE}"
+    gfa:Model="${escapeXml(p.model)}"
+    gfa:SourceIdentities="${escapeXml(p.identityIds.join(','))}"
+    gfa:TargetId="${escapeXml(p.targetId)}"
+    gfa:Provenance="${escapeXml(JSON.stringify(p))}">
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(p.disclosure)}</rdf:li></rdf:Alt></dc:description>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) { out.set(part, offset); offset += part.length; }
+  return out;
+};
+
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+
+// --- PNG: tEXt/iTXt chunks right after IHDR ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const body = concat(latin1(type), data);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(body, 4);
+  view.setUint32(8 + data.length, crc32(body));
+  return chunk;
+};
+
+const textChunk = (keyword: string, text: string) => pngChunk('tEXt', concat(latin1(keyword), new Uint8Array([0]), latin1(text)));
+
+// Uncompressed international text: keyword\0 flag method lang\0 translated\0 UTF-8 text
+const iTxtChunk = (keyword: string, text: string) =>
+  pngChunk('iTXt', concat(latin1(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)));
+
+const embedPng = (bytes: Uint8Array, p: Provenance) => {
+  const ihdrEnd = 8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+  return concat(
+    bytes.subarray(0, ihdrEnd),
+    textChunk('Software', p.software),
+    iTxtChunk('Description', p.disclosure),
+    iTxtChunk('XML:com.adobe.xmp', buildXmp(p)),
+    iTxtChunk(PROVENANCE_KEY, JSON.stringify(p)),
+    bytes.subarray(ihdrEnd),
+  );
+};
+
+// --- JPEG: APP1 XMP + COM segments after SOI/JFIF ---
+
+const jpegSegment = (marker: number, payload: Uint8Array) => {
+  if (payload.length + 2 > 0xffff) throw new Error("Metadata too large for a JPEG segment");
+  const header = new Uint8Array([0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  return concat(header, payload);
+};
+
+const embedJpeg = (bytes: Uint8Array, p: Provenance) => {
+  let offset = 2; // SOI
+  while (bytes[offset] === 0xff && bytes[offset + 1] === 0xe0) {
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+  return concat(
+    bytes.subarray(0, offset),
+    jpegSegment(0xe1, concat(latin1(XMP_HEADER), encoder.encode(buildXmp(p)))),
+    jpegSegment(0xfe, encoder.encode(p.disclosure)),
+    bytes.subarray(offset),
+  );
+};
+
+// --- WebP: XMP chunk, upgrading simple VP8/VP8L files to the extended (VP8X) layout ---
+
+const riffChunk = (fourcc: string, data: Uint8Array) => {
+  const header = new Uint8Array(8);
+  header.set(latin1(fourcc));
+  new DataView(header.buffer).setUint32(4, data.length, true);
+  return concat(header, data, new Uint8Array(data.length % 2));
+};
+
+const embedWebp = (bytes: Uint8Array, p: Provenance) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const first = String.fromCharCode(...bytes.subarray(12, 16));
+  const firstSize = view.getUint32(16, true);
+  let head: Uint8Array;
+  let rest: Uint8Array;
+
+  if (first === 'VP8X') {
+    head = bytes.slice(12, 20 + firstSize);
+    head[8] |= 0x04; // XMP present
+    rest = bytes.subarray(20 + firstSize + (firstSize % 2));
+  } else {
+    let width: number, height: number, alpha = false;
+    if (first === 'VP8L') {
+      const bits = view.getUint32(21, true);
+      width = (bits & 0x3fff) + 1;
+      height = ((bits >>> 14) & 0x3fff) + 1;
+      alpha = ((bits >>> 28) & 1) === 1;
+    } else {
+      width = view.getUint16(26, true) & 0x3fff;
+      height = view.getUint16(28, true) & 0x3fff;
+    }
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = 0x04 | (alpha ? 0x10 : 0);
+    [width - 1, height - 1].forEach((v, i) => {
+      vp8x[4 + i * 3] = v & 0xff; vp8x[5 + i * 3] = (v >> 8) & 0xff; vp8x[6 + i * 3] = (v >> 16) & 0xff;
+    });
+    head = riffChunk('VP8X', vp8x);
+    rest = bytes.subarray(12);
+  }
+
+  const body = concat(latin1('WEBP'), head, rest, riffChunk('XMP ', encoder.encode(buildXmp(p))));
+  const header = new Uint8Array(8);
+  header.set(latin1('RIFF'));
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return concat(header, body);
+};
+
+// Writes the provenance record into the file's native metadata container
+export const embedProvenance = async (blob: Blob, provenance: Provenance): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const embed = { 'image/png': embedPng, 'image/jpeg': embedJpeg, 'image/webp': embedWebp }[blob.type];
+  if (!embed) throw new Error(`Cannot embed provenance in ${blob.type || 'unknown'} files`);
+  return new Blob([embed(bytes, provenance)], { type: blob.type });
+};
+
+// Semi-transparent label in the bottom-right corner, sized to the image
+export const drawWatermark = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) * 0.035));
+  const padding = Math.round(fontSize * 0.6);
+  ctx.save();
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  const textWidth = ctx.measureText(WATERMARK_TEXT).width;
+  const boxWidth = textWidth + padding * 2;
+  const boxHeight = fontSize + padding * 2;
+  const x = width - boxWidth - padding;
+  const y = height - boxHeight - padding;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(x, y, boxWidth, boxHeight);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(WATERMARK_TEXT, x + padding, y + boxHeight / 2);
+  ctx.restore();
+};
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FaceAnalysisResult } from '../types';
+import { NoFaceError } from './analysisValidation';
+import { SwapError } from './errors';
+import { analyzeCached } from './analysisService';
+import { angleCoverage, checkReference, classifyAngle, estimateYaw, isOccluded, laplacianVariance } from './referenceQuality';
+
+vi.mock('./analysisService', () => ({ analyzeCached: vi.fn() }));
+
+const analysis = (landmarks: FaceAnalysisResult['landmarks']): FaceAnalysisResult => ({
+  face_box: [200, 300, 600, 700],
+  landmarks,
+  skin_tone: 'medium',
+  undertone: 'warm',
+  lighting: { direction: 'front', color_temperature: '5500K' },
+  face_scale_ratio: 0.16,
+});
+
+describe('checkReference', () => {
+  beforeEach(() => { vi.mocked(analyzeCached).mockReset(); });
+  const analysisFails = (error: Error) => vi.mocked(analyzeCached).mockImplementation(async () => { throw error; });
+
+  it('flags no_face only when the model reports no face', async () => {
+    analysisFails(new NoFaceError());
+    const check = await checkReference('data:image/png;base64,');
+    expect(check.issues).toEqual(['no_face']);
+    expect(check.faceCount).toBe(0);
+  });
+
+  it('rethrows malformed responses so the check can be retried', async () => {
+    analysisFails(new SwapError('bad_response', 'Analysis was not valid JSON'));
+    await expect(checkReference('data:image/png;base64,')).rejects.toMatchObject({ kind: 'bad_response' });
+  });
+
+  it('rethrows network failures', async () => {
+    analysisFails(new SwapError('network', 'Failed to fetch'));
+    await expect(checkReference('data:image/png;base64,')).rejects.toMatchObject({ kind: 'network' });
+  });
+});
+
+describe('estimateYaw', () => {
+  it('reads a centred nose with wide-set eyes as front', () => {
+    const yaw = estimateYaw(analysis({ left_eye: [350, 416], right_eye: [350, 584], nose_tip: [450, 500] }))!;
+    expect(classifyAngle(yaw)).toBe('front');
+  });
+
+  it('reads narrowed eyes with an offset nose as 45° and keeps the turn direction', () => {
+    const yaw = estimateYaw(analysis({ left_eye: [350, 430], right_eye: [350, 550], nose_tip: [450, 560] }))!;
+    expect(classifyAngle(yaw)).toBe('three_quarter');
+    expect(yaw).toBeGreaterThan(0);
+  });
+
+  it('reads a single visible eye as profile', () => {
+    const yaw = estimateYaw(analysis({ left_eye: [350, 500], nose_tip: [450, 380] }))!;
+    expect(yaw).toBe(-90);
+    expect(classifyAngle(yaw)).toBe('profile');
+  });
+
+  it('is unknown without a nose', () => {
+    expect(estimateYaw(analysis({ left_eye: [350, 416], right_eye: [350, 584] }))).toBeUndefined();
+  });
+});
+
+describe('isOccluded', () => {
+  const eyes = { left_eye: [350, 416], right_eye: [350, 584] } as FaceAnalysisResult['landmarks'];
+
+  it('expects all four landmarks on a front or 45° face', () => {
+    expect(isOccluded(analysis({ ...eyes, nose_tip: [450, 500], mouth_center: [560, 500] }), 'front')).toBe(false);
+    expect(isOccluded(analysis({ ...eyes, nose_tip: [450, 500] }), 'front')).toBe(true);
+    expect(isOccluded(analysis({ ...eyes, nose_tip: [450, 500] }), 'three_quarter')).toBe(true);
+  });
+
+  it('tolerates the hidden eye of a profile', () => {
+    expect(isOccluded(analysis({ left_eye: [350, 416], nose_tip: [450, 380], mouth_center: [560, 420] }), 'profile')).toBe(false);
+  });
+
+  it('trusts occlusions the model lists', () => {
+    const full = analysis({ ...eyes, nose_tip: [450, 500], mouth_center: [560, 500] });
+    expect(isOccluded({ ...full, occlusions: ['sunglasses'] }, 'front')).toBe(true);
+  });
+});
+
+describe('laplacianVariance', () => {
+  const image = (value: (x: number, y: number) => number) => {
+    const width = 32, height = 32, data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) {
+      const v = value(x, y);
+      data.set([v, v, v, 255], (y * width + x) * 4);
+    }
+    return { data, width, height };
+  };
+
+  it('is zero on a flat image and high on a sharp pattern', () => {
+    expect(laplacianVariance(image(() => 128))).toBe(0);
+    expect(laplacianVariance(image((x, y) => (x + y) % 2 ? 255 : 0))).toBeGreaterThan(1000);
+  });
+});
+
+describe('angleCoverage', () => {
+  it('counts usable checks and lists missing angles', () => {
+    const coverage = angleCoverage([
+      { angle: 'front', issues: [], faceCount: 1, checkedAt: 0 },
+      { angle: 'profile', issues: ['multiple_faces'], faceCount: 2, checkedAt: 0 },
+      undefined,
+    ]);
+    expect(coverage.counts).toEqual({ front: 1, three_quarter: 0, profile: 0 });
+    expect(coverage.missing).toEqual(['three_quarter', 'profile']);
+  });
+});
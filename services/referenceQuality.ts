@@ -0,0 +1,133 @@
+import { FaceAnalysisResult, FaceAngle, ReferenceCheck, ReferenceIssue, UsageSink } from "../types";
+import { REFERENCE_QUALITY } from "../constants";
+import { analyzeCached } from "./analysisService";
+import { Pixels } from "./colorTransfer";
+import { listFaces } from "./faceMetrics";
+import { boxToPixels, createCanvas, loadImage } from "./imageUtils";
+import { NoFaceError } from "./analysisValidation";
+
+export const ANGLE_LABELS: Record<FaceAngle, string> = {
+  front: 'Front',
+  three_quarter: '45°',
+  profile: 'Profile',
+};
+
+export const ISSUE_LABELS: Record<ReferenceIssue, string> = {
+  no_face: 'No face found',
+  multiple_faces: 'More than one face',
+  blurry: 'Face is blurry',
+  occluded: 'Face is partly covered',
+  low_resolution: 'Face is too small',
+};
+
+const SHARPNESS_CROP = 160; // long side of the face crop the Laplacian runs on, so scores compare across images
+const FRONT_EYE_SPAN = 0.42; // eye distance over face box width when looking straight at the camera
+
+// Variance of the 4-neighbour Laplacian over luma; low means few edges, i.e. blur
+export const laplacianVariance = ({ data, width, height }: Pixels): number => {
+  if (width < 3 || height < 3) return 0;
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  let sum = 0, sumSq = 0, n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const v = luma[i - width] + luma[i + width] + luma[i - 1] + luma[i + 1] - 4 * luma[i];
+      sum += v; sumSq += v * v; n++;
+    }
+  }
+  const mean = sum / n;
+  return sumSq / n - mean * mean;
+};
+
+// Yaw from the primary face's landmarks: the eye span shrinks as the head turns and the nose moves
+// toward the side it turns to. Undefined when the nose or both eyes are missing.
+export const estimateYaw = (analysis: FaceAnalysisResult): number | undefined => {
+  const { left_eye, right_eye, nose_tip } = analysis.landmarks;
+  const [, x0, , x1] = analysis.face_box;
+  const width = x1 - x0;
+  if (!nose_tip || width <= 0) return undefined;
+  const eyes = [left_eye, right_eye].filter(Boolean);
+  if (!eyes.length) return undefined;
+  const eyeCenter = eyes.reduce((sum, e) => sum + e![1], 0) / eyes.length;
+  const sign = nose_tip[1] >= eyeCenter ? 1 : -1;
+  // One visible eye means the other is hidden behind the nose
+  if (eyes.length === 1) return sign * 90;
+  const span = Math.abs(right_eye![1] - left_eye![1]) / width;
+  const yaw = Math.acos(Math.min(1, span / FRONT_EYE_SPAN)) * 180 / Math.PI;
+  return Math.round(sign * yaw);
+};
+
+export const classifyAngle = (yaw: number): FaceAngle => {
+  const magnitude = Math.abs(yaw);
+  if (magnitude <= REFERENCE_QUALITY.frontMaxYaw) return 'front';
+  if (magnitude >= REFERENCE_QUALITY.profileMinYaw) return 'profile';
+  return 'three_quarter';
+};
+
+// Covered when the model lists occlusions or a landmark is missing. A profile hides one eye by design,
+// so only a front or 45° face is expected to show all four.
+export const isOccluded = (analysis: FaceAnalysisResult, angle?: FaceAngle): boolean => {
+  if (analysis.occlusions?.length) return true;
+  const named = (['left_eye', 'right_eye', 'nose_tip', 'mouth_center'] as const).filter(name => analysis.landmarks[name]).length;
+  return angle !== 'profile' && named < 4;
+};
+
+// Crops the primary face, scaled so its long side is SHARPNESS_CROP
+const measureFace = async (imageBase64: string, box: number[]) => {
+  const img = await loadImage(imageBase64);
+  const face = boxToPixels(box, img.naturalWidth, img.naturalHeight);
+  const scale = SHARPNESS_CROP / Math.max(face.width, face.height, 1);
+  const { ctx, canvas } = createCanvas(face.width * scale, face.height * scale);
+  ctx.drawImage(img, face.x, face.y, face.width, face.height, 0, 0, canvas.width, canvas.height);
+  return {
+    facePixels: Math.round(Math.min(face.width, face.height)),
+    sharpness: Math.round(laplacianVariance(ctx.getImageData(0, 0, canvas.width, canvas.height))),
+  };
+};
+
+// Analyzes one reference and checks it is usable. An image the model reports no face in is a failed
+// check rather than an error; everything else, malformed responses included, is thrown so the check
+// can be retried.
+export const checkReference = async (imageBase64: string, hash?: string, model?: string, onUsage?: UsageSink): Promise<ReferenceCheck> => {
+  let analysis: FaceAnalysisResult;
+  try {
+    analysis = await analyzeCached(imageBase64, hash, model, onUsage);
+  } catch (error) {
+    if (error instanceof NoFaceError) {
+      return { issues: ['no_face'], faceCount: 0, checkedAt: Date.now() };
+    }
+    throw error;
+  }
+
+  const issues: ReferenceIssue[] = [];
+  const faceCount = listFaces(analysis).length;
+  if (faceCount > 1) issues.push('multiple_faces');
+
+  const { facePixels, sharpness } = await measureFace(imageBase64, analysis.face_box);
+  if (facePixels < REFERENCE_QUALITY.minFacePixels) issues.push('low_resolution');
+  if (sharpness < REFERENCE_QUALITY.minSharpness) issues.push('blurry');
+
+  const yaw = estimateYaw(analysis);
+  const angle = yaw === undefined ? undefined : classifyAngle(yaw);
+  if (isOccluded(analysis, angle)) issues.push('occluded');
+
+  return { angle, yaw, issues, faceCount, facePixels, sharpness, occlusions: analysis.occlusions, checkedAt: Date.now() };
+};
+
+export const describeCheck = (check: ReferenceCheck): string => [
+  check.angle ? `${ANGLE_LABELS[check.angle]}${check.yaw !== undefined ? ` (${check.yaw > 0 ? '+' : ''}${check.yaw}°)` : ''}` : 'Angle unknown',
+  ...check.issues.map(issue => issue === 'occluded' && check.occlusions?.length
+    ? `${ISSUE_LABELS[issue]}: ${check.occlusions.join(', ')}`
+    : issue === 'multiple_faces' ? `${ISSUE_LABELS[issue]} (${check.faceCount})` : ISSUE_LABELS[issue]),
+  check.facePixels !== undefined ? `Face ${check.facePixels}px · sharpness ${check.sharpness}` : '',
+].filter(Boolean).join('\n');
+
+// Angles covered by references without blocking issues, and the ones still missing
+export const angleCoverage = (checks: (ReferenceCheck | undefined)[]) => {
+  const usable = checks.filter((c): c is ReferenceCheck => !!c?.angle && !c.issues.includes('no_face') && !c.issues.includes('multiple_faces'));
+  const counts = Object.fromEntries((Object.keys(ANGLE_LABELS) as FaceAngle[]).map(a => [a, usable.filter(c => c.angle === a).length])) as Record<FaceAngle, number>;
+  return { counts, missing: (Object.keys(counts) as FaceAngle[]).filter(a => counts[a] === 0) };
+};
@@ -0,0 +1,26 @@
+import { ProcessedImage, ReviewState } from "../types";
+
+export type StatusFilter = 'all' | ProcessedImage['status'];
+export type ReviewFilter = 'all' | ReviewState;
+
+export interface TargetFilters {
+  status: StatusFilter;
+  review: ReviewFilter;
+}
+
+// Only targets with an output are reviewable; undefined means there is nothing to review yet
+export const reviewState = (target: ProcessedImage): ReviewState | undefined =>
+  target.processedUrl ? target.review?.state ?? 'pending' : undefined;
+
+export const matchesFilters = (target: ProcessedImage, filters: TargetFilters) =>
+  (filters.status === 'all' || target.status === filters.status) &&
+  (filters.review === 'all' || reviewState(target) === filters.review);
+
+export const countByReview = (targets: ProcessedImage[]) => {
+  const counts: Record<ReviewState, number> = { pending: 0, approved: 0, rejected: 0 };
+  for (const target of targets) {
+    const state = reviewState(target);
+    if (state) counts[state]++;
+  }
+  return counts;
+};
@@ -1,66 +1,618 @@
-import { UserPreferences } from '../types';
+import { ExportOptions, FaceAnalysisResult, ProcessedImage, Project, SettingsPreset, SourceIdentity, SwapSettings, UsageRecord, UserPreferences } from '../types';
+import { blobToDataUrl, createThumbnail, dataUrlToBlob, hashDataUrl } from './imageUtils';
+import { createIdentity } from './identities';
 
 const DB_NAME = 'GeminiFaceArchitectDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'preferences';
+const DB_VERSION = 5;
+const STORE_NAME = 'preferences'; // v1 single-record store, only read for migration
+const PRESETS_STORE = 'presets';
+const BLOBS_STORE = 'blobs';
+const TARGETS_STORE = 'targets';
+const IDENTITIES_STORE = 'identities';
+const SETTINGS_STORE = 'settings';
+const PROJECTS_STORE = 'projects';
+const USAGE_STORE = 'usage';
 const KEY = 'user_settings';
+const LEGACY_SESSION_KEY = 'session'; // v3: one session, before projects
+const ACTIVE_PROJECT_KEY = 'activeProject';
+const EXPORT_OPTIONS_KEY = 'exportOptions';
+const PROJECT_INDEX = 'projectId';
+
+const sessionKey = (projectId: string) => `session:${projectId}`;
+
+// Image fields are persisted as references into the content-addressed blobs store
+const BLOB_REF = 'blob-ref:';
+
+export interface StoredSession {
+  targets: ProcessedImage[];
+  identities: SourceIdentity[];
+  activeIdentityId?: string;
+  settings?: SwapSettings;
+  budget?: number; // USD cap on the project's recorded usage
+}
+
+interface SessionMeta {
+  targetIds: string[];
+  identityIds: string[];
+  activeIdentityId?: string;
+  settings?: SwapSettings;
+  budget?: number;
+}
+
+type StoredRecord<T> = T & { projectId: string };
+type StoredTarget = StoredRecord<ProcessedImage>;
+type StoredIdentity = StoredRecord<SourceIdentity>;
+
+export class StorageQuotaError extends Error {
+  constructor() {
+    super("Browser storage is full. Recent changes were not saved.");
+    this.name = 'StorageQuotaError';
+  }
+}
+
+// The project's records exist but could not be read. Saving over them would replace them with an empty
+// session, so callers must not autosave that project.
+export class StorageLoadError extends Error {
+  constructor(projectName?: string) {
+    super(`${projectName ? `"${projectName}"` : "The project"} could not be loaded from browser storage. Saving is paused for it so the stored copy is not overwritten; reload the page to try again.`);
+    this.name = 'StorageLoadError';
+  }
+}
+
+const isQuotaError = (err: unknown) =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const newId = () => Date.now().toString() + Math.random().toString();
 
 const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
-    
+
     request.onerror = () => reject(request.error);
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
+      const upgrade = request.transaction!;
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME);
       }
+      // v2: named settings presets
+      if (!db.objectStoreNames.contains(PRESETS_STORE)) {
+        db.createObjectStore(PRESETS_STORE, { keyPath: 'id' });
+      }
+      // v3: images as Blobs, one record per target/identity. The v1 record is migrated on first load.
+      if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+        db.createObjectStore(BLOBS_STORE);
+      }
+      if (!db.objectStoreNames.contains(TARGETS_STORE)) {
+        db.createObjectStore(TARGETS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(IDENTITIES_STORE)) {
+        db.createObjectStore(IDENTITIES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE);
+      }
+      // v4: projects; targets and identities are indexed by owner. v3 records are adopted on first load.
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      }
+      for (const name of [TARGETS_STORE, IDENTITIES_STORE]) {
+        const store = upgrade.objectStore(name);
+        if (!store.indexNames.contains(PROJECT_INDEX)) store.createIndex(PROJECT_INDEX, 'projectId');
+      }
+      // v5: usage ledger, one record per billed model call
+      if (!db.objectStoreNames.contains(USAGE_STORE)) {
+        db.createObjectStore(USAGE_STORE, { keyPath: 'id' }).createIndex(PROJECT_INDEX, 'projectId');
+      }
     };
-    
+
+    request.onsuccess = () => resolve(request.result);
+  });
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
     request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Call right after db.transaction() so no request failure is missed. A failing request's error event
+// bubbles here before the abort that sets transaction.error, so it is kept and the promise settles
+// on abort with whichever is set. Marked handled up front, since callers may throw from an earlier
+// request before awaiting it.
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  const done = new Promise<void>((resolve, reject) => {
+    let requestError: DOMException | null = null;
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = (event) => { requestError ??= (event.target as IDBRequest | IDBTransaction).error; };
+    transaction.onabort = () => reject(transaction.error ?? requestError ?? new DOMException("Transaction aborted", 'AbortError'));
   });
+  done.catch(() => undefined);
+  return done;
 };
 
-// Merges new preferences with existing ones to prevent data loss
-export const updatePreferences = async (partialPrefs: Partial<UserPreferences>): Promise<void> => {
+// What was last written per project, by object identity. The target store replaces only the objects
+// it changes, so anything still reference-equal here is already on disk.
+interface SavedState {
+  targets: Map<string, ProcessedImage>;
+  identities: Map<string, SourceIdentity>;
+  meta: string;
+  thumbnailSource?: string;
+}
+const saved = new Map<string, SavedState>();
+const knownBlobs = new Set<string>();
+const blobKeys = new Map<string, string>(); // data URL -> content hash
+
+const savedState = (projectId: string) => {
+  let state = saved.get(projectId);
+  if (!state) {
+    state = { targets: new Map(), identities: new Map(), meta: '' };
+    saved.set(projectId, state);
+  }
+  return state;
+};
+
+const blobKeyFor = async (dataUrl: string) => {
+  let key = blobKeys.get(dataUrl);
+  if (!key) {
+    key = await hashDataUrl(dataUrl);
+    blobKeys.set(dataUrl, key);
+  }
+  return key;
+};
+
+// Swaps data URLs for blob refs, collecting blobs that still need writing
+const dehydrate = async <T extends ProcessedImage | SourceIdentity>(record: T, projectId: string, pending: Map<string, Blob>): Promise<StoredRecord<T>> => {
+  const toRef = async (url?: string) => {
+    if (!url || !url.startsWith('data:')) return url;
+    const key = await blobKeyFor(url);
+    if (!knownBlobs.has(key) && !pending.has(key)) pending.set(key, dataUrlToBlob(url));
+    return BLOB_REF + key;
+  };
+
+  if ('images' in record) {
+    return { ...record, projectId, images: await Promise.all(record.images.map(toRef)) } as unknown as StoredRecord<T>;
+  }
+  const target = record as ProcessedImage;
+  return {
+    ...target,
+    projectId,
+    originalUrl: await toRef(target.originalUrl),
+    processedUrl: await toRef(target.processedUrl),
+    maskUrl: await toRef(target.maskUrl),
+    generations: target.generations && await Promise.all(target.generations.map(async g => ({ ...g, url: (await toRef(g.url))! }))),
+  } as unknown as StoredRecord<T>;
+};
+
+const collectRefs = (record: ProcessedImage | SourceIdentity): string[] => {
+  const urls = 'images' in record
+    ? record.images
+    : [record.originalUrl, record.processedUrl, record.maskUrl, ...(record.generations || []).map(g => g.url)];
+  return urls.filter((u): u is string => !!u && u.startsWith(BLOB_REF)).map(u => u.slice(BLOB_REF.length));
+};
+
+const hydrate = <T extends ProcessedImage | SourceIdentity>(stored: StoredRecord<T>, urls: Map<string, string>): T => {
+  const { projectId, ...record } = stored as StoredRecord<ProcessedImage | SourceIdentity>;
+  const fromRef = (url?: string) => url && url.startsWith(BLOB_REF) ? urls.get(url.slice(BLOB_REF.length)) : url;
+
+  if ('images' in record) {
+    // Checks stay aligned with the images that could be restored
+    const images = record.images.map(fromRef);
+    return {
+      ...record,
+      images: images.filter((u): u is string => !!u),
+      referenceChecks: record.referenceChecks?.filter((_, i) => !!images[i]),
+    } as T;
+  }
+  const target = record as ProcessedImage;
+  return {
+    ...target,
+    originalUrl: fromRef(target.originalUrl) || '',
+    processedUrl: fromRef(target.processedUrl),
+    maskUrl: fromRef(target.maskUrl),
+    generations: target.generations?.map(g => ({ ...g, url: fromRef(g.url) || '' })),
+  } as T;
+};
+
+const thumbnailSourceOf = (targets: ProcessedImage[]) =>
+  targets.find(t => t.processedUrl)?.processedUrl || targets[0]?.originalUrl;
+
+// Writes only what changed since the last save: new/changed targets and identities, their new blobs,
+// deletions, the small session record and the project's list entry. Returns the updated project, or
+// null when there was nothing to write. Throws StorageQuotaError when the browser refuses the write.
+export const saveSession = async (projectId: string, session: StoredSession): Promise<Project | null> => {
+  const state = savedState(projectId);
+  const pendingBlobs = new Map<string, Blob>();
+  const changedTargets = session.targets.filter(t => state.targets.get(t.id) !== t);
+  const changedIdentities = session.identities.filter(i => state.identities.get(i.id) !== i);
+  const removedTargets = [...state.targets.keys()].filter(id => !session.targets.some(t => t.id === id));
+  const removedIdentities = [...state.identities.keys()].filter(id => !session.identities.some(i => i.id === id));
+
+  const meta: SessionMeta = {
+    targetIds: session.targets.map(t => t.id),
+    identityIds: session.identities.map(i => i.id),
+    activeIdentityId: session.activeIdentityId,
+    settings: session.settings,
+    budget: session.budget,
+  };
+  const metaJson = JSON.stringify(meta);
+
+  if (!changedTargets.length && !changedIdentities.length && !removedTargets.length && !removedIdentities.length && metaJson === state.meta) {
+    return null;
+  }
+
+  // Hashing and thumbnailing are async, so everything is prepared before the transaction opens
+  // (it would auto-commit otherwise)
+  const targetRecords = await Promise.all(changedTargets.map(t => dehydrate(t, projectId, pendingBlobs)));
+  const identityRecords = await Promise.all(changedIdentities.map(i => dehydrate(i, projectId, pendingBlobs)));
+  const thumbnailSource = thumbnailSourceOf(session.targets);
+  const thumbnail = thumbnailSource === state.thumbnailSource
+    ? undefined
+    : thumbnailSource ? await createThumbnail(thumbnailSource).catch(() => undefined) : '';
+
+  let project: Project | null = null;
+  let done: Promise<void> | undefined;
   try {
     const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      
-      const getReq = store.get(KEY);
-      
-      getReq.onsuccess = () => {
-        const current = (getReq.result as UserPreferences) || {};
-        const updated = { ...current, ...partialPrefs };
-        
-        const putReq = store.put(updated, KEY);
-        putReq.onsuccess = () => resolve();
-        putReq.onerror = () => reject(putReq.error);
+    const transaction = db.transaction([BLOBS_STORE, TARGETS_STORE, IDENTITIES_STORE, SETTINGS_STORE, PROJECTS_STORE], 'readwrite');
+    done = transactionDone(transaction);
+    pendingBlobs.forEach((blob, key) => transaction.objectStore(BLOBS_STORE).put(blob, key));
+    targetRecords.forEach(r => transaction.objectStore(TARGETS_STORE).put(r));
+    identityRecords.forEach(r => transaction.objectStore(IDENTITIES_STORE).put(r));
+    removedTargets.forEach(id => transaction.objectStore(TARGETS_STORE).delete(id));
+    removedIdentities.forEach(id => transaction.objectStore(IDENTITIES_STORE).delete(id));
+    transaction.objectStore(SETTINGS_STORE).put(meta, sessionKey(projectId));
+
+    const projects = transaction.objectStore(PROJECTS_STORE);
+    const existing = await requestToPromise(projects.get(projectId)) as Project | undefined;
+    if (existing) {
+      project = {
+        ...existing,
+        updatedAt: Date.now(),
+        targetCount: session.targets.length,
+        thumbnail: thumbnail === undefined ? existing.thumbnail : thumbnail || undefined,
       };
-      
-      getReq.onerror = () => reject(getReq.error);
+      projects.put(project);
+    }
+    await done;
+  } catch (err) {
+    // A put failing aborts the transaction, which also fails the pending get with a generic AbortError;
+    // the transaction's own error says why (e.g. quota)
+    const cause = done ? await done.then(() => err, abortError => abortError) : err;
+    if (isQuotaError(cause)) throw new StorageQuotaError();
+    console.error("IndexedDB Save Error:", cause);
+    throw cause;
+  }
+
+  pendingBlobs.forEach((_, key) => knownBlobs.add(key));
+  changedTargets.forEach(t => state.targets.set(t.id, t));
+  changedIdentities.forEach(i => state.identities.set(i.id, i));
+  removedTargets.forEach(id => state.targets.delete(id));
+  removedIdentities.forEach(id => state.identities.delete(id));
+  state.meta = metaJson;
+  if (thumbnail !== undefined) state.thumbnailSource = thumbnailSource;
+  return project;
+};
+
+const putProject = async (db: IDBDatabase, project: Project) => {
+  await requestToPromise(db.transaction(PROJECTS_STORE, 'readwrite').objectStore(PROJECTS_STORE).put(project));
+};
+
+// v3 kept one unowned session; it becomes the first project
+const adoptUnownedSession = async (db: IDBDatabase): Promise<void> => {
+  const meta = await requestToPromise(db.transaction(SETTINGS_STORE, 'readonly').objectStore(SETTINGS_STORE).get(LEGACY_SESSION_KEY)) as SessionMeta | undefined;
+  if (!meta) return;
+
+  const now = Date.now();
+  const project: Project = { id: newId(), name: 'Project 1', createdAt: now, updatedAt: now, targetCount: meta.targetIds.length };
+  const transaction = db.transaction([TARGETS_STORE, IDENTITIES_STORE, SETTINGS_STORE, PROJECTS_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  for (const name of [TARGETS_STORE, IDENTITIES_STORE]) {
+    const store = transaction.objectStore(name);
+    const records = await requestToPromise(store.getAll()) as Array<{ projectId?: string }>;
+    records.filter(r => !r.projectId).forEach(r => store.put({ ...r, projectId: project.id }));
+  }
+  transaction.objectStore(SETTINGS_STORE).put(meta, sessionKey(project.id));
+  transaction.objectStore(SETTINGS_STORE).delete(LEGACY_SESSION_KEY);
+  transaction.objectStore(SETTINGS_STORE).put(project.id, ACTIVE_PROJECT_KEY);
+  transaction.objectStore(PROJECTS_STORE).put(project);
+  await done;
+};
+
+// v1 records stored a single `image`; later ones an `images` array
+type LegacyLastSource = { images?: string[]; image?: string; analysis?: FaceAnalysisResult };
+
+const legacySourceImages = (source: LegacyLastSource | undefined): string[] => {
+  if (!source || typeof source !== 'object') return [];
+  if (Array.isArray(source.images)) return source.images.filter((image): image is string => typeof image === 'string');
+  return typeof source.image === 'string' ? [source.image] : [];
+};
+
+// Sessions saved before v3 live in one preferences record; rewrite them into a project once
+const migrateLegacyPreferences = async (db: IDBDatabase): Promise<void> => {
+  const legacy = await requestToPromise(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(KEY)) as UserPreferences | undefined;
+  if (!legacy) return;
+
+  const s = legacy.session_state;
+  const lastSource: LegacyLastSource | undefined = legacy.last_used_source;
+  const lastAnalysis = lastSource && typeof lastSource === 'object' && typeof lastSource.analysis === 'object' && lastSource.analysis !== null
+    ? lastSource.analysis
+    : undefined;
+  const images = s?.sourceFaces || legacySourceImages(lastSource);
+  const identities = s?.identities
+    || (images.length ? [createIdentity('Identity 1', images, s?.analysis || lastAnalysis)] : []);
+
+  const now = Date.now();
+  const project: Project = { id: newId(), name: 'Project 1', createdAt: now, updatedAt: now };
+  await putProject(db, project);
+  await saveSession(project.id, {
+    targets: s?.targets || [],
+    identities,
+    activeIdentityId: s?.activeIdentityId ?? identities[0]?.id,
+  });
+  await requestToPromise(db.transaction(SETTINGS_STORE, 'readwrite').objectStore(SETTINGS_STORE).put(project.id, ACTIVE_PROJECT_KEY));
+  await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(KEY));
+};
+
+// Blobs are shared between projects (duplicates reference the same hashes), so only delete
+// those that no target or identity anywhere still points at
+const pruneBlobs = async (db: IDBDatabase): Promise<void> => {
+  const transaction = db.transaction([BLOBS_STORE, TARGETS_STORE, IDENTITIES_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const [targets, identities, keys] = await Promise.all([
+    requestToPromise(transaction.objectStore(TARGETS_STORE).getAll()) as Promise<StoredTarget[]>,
+    requestToPromise(transaction.objectStore(IDENTITIES_STORE).getAll()) as Promise<StoredIdentity[]>,
+    requestToPromise(transaction.objectStore(BLOBS_STORE).getAllKeys()),
+  ]);
+  const referenced = new Set([...targets, ...identities].flatMap(collectRefs));
+  keys.map(String).filter(key => !referenced.has(key)).forEach(key => {
+    transaction.objectStore(BLOBS_STORE).delete(key);
+    knownBlobs.delete(key);
+  });
+  await done;
+};
+
+// Migrations run once per page load, before anything reads projects
+let migrated: Promise<IDBDatabase> | null = null;
+const ready = (): Promise<IDBDatabase> => {
+  if (!migrated) {
+    migrated = openDB().then(async db => {
+      await adoptUnownedSession(db);
+      await migrateLegacyPreferences(db);
+      return db;
+    });
+    migrated.catch(() => { migrated = null; });
+  }
+  return migrated;
+};
+
+const readProjectRecords = async (db: IDBDatabase, projectId: string) => {
+  const transaction = db.transaction([TARGETS_STORE, IDENTITIES_STORE, SETTINGS_STORE], 'readonly');
+  const [meta, targets, identities] = await Promise.all([
+    requestToPromise(transaction.objectStore(SETTINGS_STORE).get(sessionKey(projectId))) as Promise<SessionMeta | undefined>,
+    requestToPromise(transaction.objectStore(TARGETS_STORE).index(PROJECT_INDEX).getAll(projectId)) as Promise<StoredTarget[]>,
+    requestToPromise(transaction.objectStore(IDENTITIES_STORE).index(PROJECT_INDEX).getAll(projectId)) as Promise<StoredIdentity[]>,
+  ]);
+  return { meta, targets, identities };
+};
+
+// Throws StorageLoadError when the records can't be read, rather than returning an empty session
+export const loadSession = async (projectId: string, projectName?: string): Promise<StoredSession> => {
+  try {
+    const db = await ready();
+    const { meta, targets: targetRecords, identities: identityRecords } = await readProjectRecords(db, projectId);
+
+    const referenced = [...new Set([...targetRecords, ...identityRecords].flatMap(collectRefs))];
+    const blobStore = db.transaction(BLOBS_STORE, 'readonly').objectStore(BLOBS_STORE);
+    const blobs = await Promise.all(referenced.map(async key => [key, await requestToPromise(blobStore.get(key)) as Blob | undefined] as const));
+
+    const urls = new Map<string, string>();
+    await Promise.all(blobs.map(async ([key, blob]) => {
+      if (!blob) return;
+      const url = await blobToDataUrl(blob);
+      urls.set(key, url);
+      blobKeys.set(url, key);
+      knownBlobs.add(key);
+    }));
+
+    const order = (ids: string[] = []) => (a: { id: string }, b: { id: string }) => ids.indexOf(a.id) - ids.indexOf(b.id);
+    const targets = targetRecords.map(r => hydrate(r, urls)).sort(order(meta?.targetIds));
+    const identities = identityRecords.map(r => hydrate(r, urls)).sort(order(meta?.identityIds));
+
+    saved.set(projectId, {
+      targets: new Map(targets.map(t => [t.id, t])),
+      identities: new Map(identities.map(i => [i.id, i])),
+      meta: meta ? JSON.stringify(meta) : '',
+      thumbnailSource: thumbnailSourceOf(targets),
     });
+
+    pruneBlobs(db).catch(err => console.error("IndexedDB Cleanup Error:", err));
+
+    return { targets, identities, activeIdentityId: meta?.activeIdentityId, settings: meta?.settings, budget: meta?.budget };
+  } catch (err) {
+    console.error("IndexedDB Load Error:", err);
+    throw new StorageLoadError(projectName);
+  }
+};
+
+export const listProjects = async (): Promise<Project[]> => {
+  try {
+    const db = await ready();
+    const projects = await requestToPromise(db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE).getAll()) as Project[];
+    return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (err) {
+    console.error("IndexedDB Load Error:", err);
+    return [];
+  }
+};
+
+export const createProject = async (name: string): Promise<Project> => {
+  const now = Date.now();
+  const project: Project = { id: newId(), name, createdAt: now, updatedAt: now, targetCount: 0 };
+  await putProject(await ready(), project);
+  return project;
+};
+
+// Restores a complete session (e.g. from an archive) as a new project
+export const importProject = async (name: string, session: StoredSession): Promise<Project> => {
+  const project = await createProject(name);
+  return (await saveSession(project.id, session)) || project;
+};
+
+// Insert or replace by id (used for rename)
+export const saveProject = async (project: Project): Promise<void> => {
+  try {
+    await putProject(await ready(), project);
   } catch (err) {
-    console.error("IndexedDB Update Error:", err);
+    if (isQuotaError(err)) throw new StorageQuotaError();
     throw err;
   }
 };
 
-export const loadPreferences = async (): Promise<UserPreferences | null> => {
+// Copies every target and identity under new ids. Blobs are content-addressed, so images are shared, not copied.
+export const duplicateProject = async (sourceId: string, name: string): Promise<Project> => {
+  const db = await ready();
+  const source = await requestToPromise(db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE).get(sourceId)) as Project | undefined;
+  const { meta, targets, identities } = await readProjectRecords(db, sourceId);
+
+  const now = Date.now();
+  const project: Project = { ...source, id: newId(), name, createdAt: now, updatedAt: now };
+  const identityIds = new Map(identities.map(i => [i.id, newId()]));
+  const targetIds = new Map(targets.map(t => [t.id, newId()]));
+  const remap = (id?: string) => id && (identityIds.get(id) ?? id);
+
+  try {
+    const transaction = db.transaction([TARGETS_STORE, IDENTITIES_STORE, SETTINGS_STORE, PROJECTS_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    identities.forEach(i => transaction.objectStore(IDENTITIES_STORE).put({ ...i, id: identityIds.get(i.id)!, projectId: project.id }));
+    targets.forEach(t => transaction.objectStore(TARGETS_STORE).put({
+      ...t,
+      id: targetIds.get(t.id)!,
+      projectId: project.id,
+      identityId: remap(t.identityId),
+      faceIdentities: t.faceIdentities && Object.fromEntries(Object.entries(t.faceIdentities).map(([face, id]) => [face, remap(id)!])),
+      generations: t.generations?.map(g => ({ ...g, identityIds: g.identityIds?.map(id => remap(id)!) })),
+    }));
+    if (meta) {
+      transaction.objectStore(SETTINGS_STORE).put({
+        ...meta,
+        targetIds: meta.targetIds.map(id => targetIds.get(id) ?? id),
+        identityIds: meta.identityIds.map(id => identityIds.get(id) ?? id),
+        activeIdentityId: remap(meta.activeIdentityId),
+      }, sessionKey(project.id));
+    }
+    transaction.objectStore(PROJECTS_STORE).put(project);
+    await done;
+  } catch (err) {
+    if (isQuotaError(err)) throw new StorageQuotaError();
+    throw err;
+  }
+  return project;
+};
+
+export const deleteProject = async (projectId: string): Promise<void> => {
+  const db = await ready();
+  const transaction = db.transaction([TARGETS_STORE, IDENTITIES_STORE, SETTINGS_STORE, PROJECTS_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  for (const name of [TARGETS_STORE, IDENTITIES_STORE]) {
+    const store = transaction.objectStore(name);
+    const keys = await requestToPromise(store.index(PROJECT_INDEX).getAllKeys(projectId));
+    keys.forEach(key => store.delete(key));
+  }
+  transaction.objectStore(SETTINGS_STORE).delete(sessionKey(projectId));
+  transaction.objectStore(PROJECTS_STORE).delete(projectId);
+  await done;
+  saved.delete(projectId);
+  await pruneBlobs(db);
+};
+
+// Usage records are append-only and outlive their project: deleting a project doesn't refund its calls
+export const appendUsage = async (record: UsageRecord): Promise<void> => {
+  const db = await ready();
+  await requestToPromise(db.transaction(USAGE_STORE, 'readwrite').objectStore(USAGE_STORE).put(record));
+};
+
+// One project's records, or the whole ledger
+export const loadUsage = async (projectId?: string): Promise<UsageRecord[]> => {
+  try {
+    const db = await ready();
+    const store = db.transaction(USAGE_STORE, 'readonly').objectStore(USAGE_STORE);
+    return await requestToPromise(projectId ? store.index(PROJECT_INDEX).getAll(projectId) : store.getAll()) as UsageRecord[];
+  } catch (err) {
+    console.error("IndexedDB Load Error:", err);
+    return [];
+  }
+};
+
+export const loadActiveProjectId = async (): Promise<string | undefined> => {
+  try {
+    const db = await ready();
+    return await requestToPromise(db.transaction(SETTINGS_STORE, 'readonly').objectStore(SETTINGS_STORE).get(ACTIVE_PROJECT_KEY)) as string | undefined;
+  } catch (err) {
+    console.error("IndexedDB Load Error:", err);
+    return undefined;
+  }
+};
+
+export const saveActiveProjectId = async (projectId: string): Promise<void> => {
+  const db = await ready();
+  await requestToPromise(db.transaction(SETTINGS_STORE, 'readwrite').objectStore(SETTINGS_STORE).put(projectId, ACTIVE_PROJECT_KEY));
+};
+
+// Export naming/format choices are shared by all projects (they follow the downstream DAM, not the job)
+export const loadExportOptions = async (): Promise<Partial<ExportOptions> | undefined> => {
+  try {
+    const db = await openDB();
+    return await requestToPromise(db.transaction(SETTINGS_STORE, 'readonly').objectStore(SETTINGS_STORE).get(EXPORT_OPTIONS_KEY)) as Partial<ExportOptions> | undefined;
+  } catch (err) {
+    console.error("IndexedDB Load Error:", err);
+    return undefined;
+  }
+};
+
+export const saveExportOptions = async (options: ExportOptions): Promise<void> => {
+  const db = await openDB();
+  await requestToPromise(db.transaction(SETTINGS_STORE, 'readwrite').objectStore(SETTINGS_STORE).put(options, EXPORT_OPTIONS_KEY));
+};
+
+export const estimateStorage = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const loadPresets = async (): Promise<SettingsPreset[]> => {
   try {
     const db = await openDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.get(KEY);
-      
+      const transaction = db.transaction(PRESETS_STORE, 'readonly');
+      const request = transaction.objectStore(PRESETS_STORE).getAll();
+
       request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result as UserPreferences || null);
+      request.onsuccess = () => resolve((request.result as SettingsPreset[]).sort((a, b) => a.name.localeCompare(b.name)));
     });
   } catch (err) {
     console.error("IndexedDB Load Error:", err);
-    return null;
+    return [];
   }
-};
\ No newline at end of file
+};
+
+// Insert or replace by id (also used for rename)
+export const savePreset = async (preset: SettingsPreset): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(PRESETS_STORE, 'readwrite').objectStore(PRESETS_STORE).put(preset);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(PRESETS_STORE, 'readwrite').objectStore(PRESETS_STORE).delete(id);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
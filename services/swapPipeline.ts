@@ -0,0 +1,112 @@
+import { QualityCheck, RequestSummary, ScaleCheck, SwapRequest, SwapSettings } from "../types";
+import { QUALITY_MAX_ATTEMPTS, SCALE_LOCK_MAX_ATTEMPTS } from "../constants";
+import { activeProvider, analyzeFace, performFaceSwap } from "./imageProvider";
+import { faceView, measureScaleDrift, nearestFaceIndex, resolveTargetFaces, scoreIdentity } from "./faceMetrics";
+import { finishOutput } from "./masking";
+import { imageSizeFor } from "./engine";
+import { toSwapError } from "./errors";
+
+export interface SwapJobResult {
+  processedUrl: string;
+  settings: SwapSettings;
+  model: string;
+  identityIds: string[]; // source identities used, in request order
+  draft: boolean;
+  scaleCheck?: ScaleCheck;
+  quality?: QualityCheck;
+}
+
+const passed = (r: SwapJobResult) => (r.scaleCheck?.passed ?? true) && (r.quality?.passed ?? true);
+
+// Passing results first, then fewer failed checks, then identity score, then scale drift
+const isBetter = (a: SwapJobResult, b: SwapJobResult) => {
+  if (passed(a) !== passed(b)) return passed(a);
+  const aScale = a.scaleCheck?.passed ?? true, bScale = b.scaleCheck?.passed ?? true;
+  if (aScale !== bScale) return aScale;
+  const aScore = a.quality?.score ?? 0, bScore = b.quality?.score ?? 0;
+  if (aScore !== bScore) return aScore > bScore;
+  return (a.scaleCheck?.drift ?? 0) < (b.scaleCheck?.drift ?? 0);
+};
+
+export const summarizeRequest = (request: SwapRequest): RequestSummary => {
+  const { settings, sources, targetAnalysis } = request;
+  return {
+    provider: activeProvider.label,
+    model: activeProvider.swapModel(settings),
+    resolution: activeProvider.modelSelection ? imageSizeFor(settings) : undefined,
+    analysisModel: settings.analysisModel,
+    draft: !!request.draft,
+    identities: sources.map(s => s.name),
+    referenceImages: sources.reduce((n, s) => n + s.images.length, 0),
+    faces: targetAnalysis ? [...new Set(sources.flatMap(s => resolveTargetFaces(targetAnalysis, s.targetFaces)))] : [],
+    mask: !settings.maskedComposite ? 'off' : request.mask ? 'custom' : 'auto',
+  };
+};
+
+// Failures leave with the request they belong to, for diagnostics
+export const runSwapJob = async (request: SwapRequest): Promise<SwapJobResult> => {
+  try {
+    return await runVerifiedSwap(request);
+  } catch (err) {
+    const error = toSwapError(err);
+    error.request ??= summarizeRequest(request);
+    throw error;
+  }
+};
+
+// Swap plus post-generation verification. Each output is post-processed (color match, seamless blend,
+// masked composite; see finishOutput) before anything is measured. The output is re-analyzed once per attempt and checked for
+// face scale drift (fixed scale mode) and identity similarity to the source. Failing outputs are
+// regenerated up to the attempt limit; the best attempt is kept and flagged if nothing passed.
+// With several identities the worst drift and the weakest likeness decide.
+const runVerifiedSwap = async (request: SwapRequest): Promise<SwapJobResult> => {
+  const { settings, sources, targetAnalysis } = request;
+  const identityIds = sources.map(s => s.identityId);
+  const lockScale = settings.faceScaleLock === 'fixed' && !!targetAnalysis;
+  const checkQuality = sources.some(s => s.analysis);
+  const draft = !!request.draft;
+  // Drafts are cheap previews: checked and flagged, but never regenerated
+  const maxAttempts = draft ? 1 : Math.max(1, lockScale ? SCALE_LOCK_MAX_ATTEMPTS : 1, checkQuality ? QUALITY_MAX_ATTEMPTS : 1);
+
+  // Group shots: each identity is checked on its first replaced face and that face's counterpart in the output
+  const checks = sources.map(source => ({
+    source,
+    targetFace: targetAnalysis && faceView(targetAnalysis, resolveTargetFaces(targetAnalysis, source.targetFaces)[0]),
+  }));
+
+  let best: SwapJobResult | null = null;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const generated = await performFaceSwap(request);
+    const processedUrl = await finishOutput(request, generated);
+    const model = activeProvider.swapModel(settings);
+    if (!lockScale && !checkQuality) return { processedUrl, settings, model, identityIds, draft };
+    if (request.signal?.aborted) throw new Error("Swap aborted");
+
+    const fullOutput = await analyzeFace(processedUrl, settings.analysisModel, request.onUsage);
+    const result: SwapJobResult = { processedUrl, settings, model, identityIds, draft };
+
+    checks.forEach(({ source, targetFace }) => {
+      const outputFace = targetFace ? faceView(fullOutput, nearestFaceIndex(fullOutput, targetFace.face_box)) : fullOutput;
+
+      if (lockScale) {
+        const drift = measureScaleDrift(targetFace!, outputFace);
+        if (!result.scaleCheck || drift > result.scaleCheck.drift) {
+          result.scaleCheck = { drift, tolerance: settings.faceScaleTolerance, passed: drift <= settings.faceScaleTolerance, attempts: attempt };
+        }
+      }
+      if (source.analysis) {
+        const skinReference = settings.matchSkinTone && targetFace ? targetFace : source.analysis;
+        const { score, ...breakdown } = scoreIdentity(source.analysis, outputFace, skinReference);
+        if (!result.quality || score < result.quality.score) {
+          result.quality = { score, breakdown, threshold: settings.qualityThreshold, passed: score >= settings.qualityThreshold, attempts: attempt };
+        }
+      }
+    });
+
+    if (!best || isBetter(result, best)) best = result;
+    if (best.scaleCheck) best.scaleCheck.attempts = attempt;
+    if (best.quality) best.quality.attempts = attempt;
+    if (passed(best)) break;
+  }
+  return best!;
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SWAP_SETTINGS } from '../constants';
+import { Generation, ProcessedImage } from '../types';
+import { describeFailure } from './errors';
+import { canTransition, createTargetStore, targetsReducer } from './targetStore';
+
+const target = (patch: Partial<ProcessedImage> = {}): ProcessedImage => ({ id: 't', originalUrl: 'data:,', status: 'idle', ...patch });
+
+const generation = (id: string): Generation => ({
+  id, url: `data:${id}`, settings: DEFAULT_SWAP_SETTINGS, model: 'mock', createdAt: 0,
+});
+
+const failure = describeFailure(new Error('Failed to fetch'));
+
+describe('targetsReducer', () => {
+  it('follows idle -> processing -> completed and mirrors the new output', () => {
+    let state = targetsReducer([target()], { type: 'start', id: 't' });
+    expect(state[0].status).toBe('processing');
+    state = targetsReducer(state, { type: 'complete', id: 't', generation: generation('g1') });
+    expect(state[0]).toMatchObject({ status: 'completed', processedUrl: 'data:g1', preferredGenerationId: 'g1' });
+    expect(state[0].generations).toHaveLength(1);
+  });
+
+  it('returns the same state for invalid transitions and unknown ids', () => {
+    const state = [target()];
+    expect(targetsReducer(state, { type: 'complete', id: 't', generation: generation('g1') })).toBe(state);
+    expect(targetsReducer(state, { type: 'start', id: 'missing' })).toBe(state);
+    expect(canTransition('failed', 'completed')).toBe(false);
+  });
+
+  it('keeps earlier outputs when a re-roll fails', () => {
+    const state = [target({ status: 'processing', generations: [generation('g1')], processedUrl: 'data:g1' })];
+    const next = targetsReducer(state, { type: 'fail', id: 't', failure });
+    expect(next[0]).toMatchObject({ status: 'completed', processedUrl: 'data:g1', failure });
+  });
+
+  it('fails a first run and resets it to idle', () => {
+    let state = targetsReducer([target({ status: 'processing' })], { type: 'fail', id: 't', failure });
+    expect(state[0]).toMatchObject({ status: 'failed', error: failure.message });
+    state = targetsReducer(state, { type: 'reset', id: 't' });
+    expect(state[0]).toMatchObject({ status: 'idle', error: undefined, failure: undefined });
+  });
+
+  it('mirrors the selected generation in the output fields', () => {
+    const state = [target({ status: 'completed', generations: [generation('g1'), generation('g2')], preferredGenerationId: 'g1', processedUrl: 'data:g1' })];
+    expect(targetsReducer(state, { type: 'select_generation', id: 't', generationId: 'g2' })[0]).toMatchObject({ preferredGenerationId: 'g2', processedUrl: 'data:g2' });
+    expect(targetsReducer(state, { type: 'select_generation', id: 't', generationId: 'missing' })).toBe(state);
+  });
+
+  it('clears the review when a different generation is preferred', () => {
+    const review = { state: 'approved' as const, reviewedAt: 0 };
+    const state = [target({
+      status: 'completed', generations: [generation('g1'), generation('g2')],
+      preferredGenerationId: 'g1', processedUrl: 'data:g1', review,
+    })];
+    expect(targetsReducer(state, { type: 'select_generation', id: 't', generationId: 'g1' })[0].review).toBe(review);
+    const next = targetsReducer(state, { type: 'select_generation', id: 't', generationId: 'g2' });
+    expect(next[0]).toMatchObject({ processedUrl: 'data:g2', review: undefined });
+  });
+
+  it('only records reviews against a completed output', () => {
+    const state = [target()];
+    expect(targetsReducer(state, { type: 'review', id: 't', review: { state: 'approved', reviewedAt: 0 } })).toBe(state);
+  });
+
+  it('settles targets that were processing when loaded', () => {
+    const state = targetsReducer([], { type: 'load', targets: [
+      target({ id: 'a', status: 'processing' }),
+      target({ id: 'b', status: 'processing', generations: [generation('g1')] }),
+    ] });
+    expect(state.map(t => t.status)).toEqual(['idle', 'completed']);
+  });
+});
+
+describe('createTargetStore', () => {
+  it('notifies subscribers only for accepted actions', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const store = createTargetStore([target()]);
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    expect(store.dispatch({ type: 'reset', id: 't' })).toBe(false);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("Rejected 'reset'"));
+    expect(listener).not.toHaveBeenCalled();
+
+    expect(store.dispatch({ type: 'start', id: 't' })).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getTarget('t')?.status).toBe('processing');
+    warn.mockRestore();
+  });
+});
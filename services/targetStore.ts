@@ -0,0 +1,131 @@
+import { Generation, ProcessedImage, Review, SwapFailure } from "../types";
+
+export type TargetStatus = ProcessedImage['status'];
+
+// Reviews go through the 'review' action so they can only be recorded against an output
+export type TargetPatch = Partial<Omit<ProcessedImage, 'id' | 'status' | 'review'>>;
+
+export type TargetAction =
+  | { type: 'load'; targets: ProcessedImage[] }
+  | { type: 'add'; target: ProcessedImage }
+  | { type: 'remove'; id: string }
+  | { type: 'start'; id: string }
+  | { type: 'complete'; id: string; generation: Generation }
+  | { type: 'fail'; id: string; failure: SwapFailure }
+  | { type: 'reset'; id: string }
+  | { type: 'select_generation'; id: string; generationId: string }
+  | { type: 'review'; id: string; review?: Review }
+  | { type: 'patch'; id: string; patch: TargetPatch };
+
+type StatusAction = Extract<TargetAction, { type: 'start' | 'complete' | 'fail' | 'reset' }>;
+
+const STATUS_ACTIONS: TargetAction['type'][] = ['start', 'complete', 'fail', 'reset'];
+
+// Lifecycle: idle -> processing -> completed | failed. 'reset' returns a cancelled or failed target to idle.
+// Completed targets re-enter processing to re-roll; if that re-roll fails or is cancelled the target
+// falls back to completed so its earlier variants stay in place.
+const TRANSITIONS: Record<TargetStatus, TargetStatus[]> = {
+  idle: ['processing'],
+  processing: ['completed', 'failed', 'idle'],
+  completed: ['processing'],
+  failed: ['idle'],
+};
+
+const nextStatus = (action: StatusAction, target: ProcessedImage): TargetStatus => {
+  const hasOutputs = !!target.generations?.length;
+  switch (action.type) {
+    case 'start': return 'processing';
+    case 'complete': return 'completed';
+    case 'fail': return hasOutputs ? 'completed' : 'failed';
+    case 'reset': return hasOutputs && target.status === 'processing' ? 'completed' : 'idle';
+  }
+};
+
+export const canTransition = (from: TargetStatus, to: TargetStatus) => TRANSITIONS[from].includes(to);
+
+const updateTarget = (state: ProcessedImage[], id: string, update: (t: ProcessedImage) => ProcessedImage) => {
+  const index = state.findIndex(t => t.id === id);
+  if (index < 0) return state;
+  const next = [...state];
+  next[index] = update(state[index]);
+  return next;
+};
+
+// Top-level output fields always mirror the preferred generation. A review covers one output, so a
+// different preferred generation goes back to pending.
+const withPreferred = (t: ProcessedImage, generation: Generation): ProcessedImage => ({
+  ...t,
+  review: t.preferredGenerationId === generation.id ? t.review : undefined,
+  preferredGenerationId: generation.id,
+  processedUrl: generation.url,
+  effectiveSettings: generation.settings,
+  quality: generation.quality,
+  scaleCheck: generation.scaleCheck,
+});
+
+// Pure reducer: invalid transitions and unknown ids return the same state reference
+export const targetsReducer = (state: ProcessedImage[], action: TargetAction): ProcessedImage[] => {
+  switch (action.type) {
+    case 'load':
+      // Nothing can still be running after a reload
+      return action.targets.map(t => t.status === 'processing' ? { ...t, status: t.generations?.length ? 'completed' : 'idle' } : t);
+    case 'add':
+      return state.some(t => t.id === action.target.id) ? state : [...state, action.target];
+    case 'remove':
+      return state.some(t => t.id === action.id) ? state.filter(t => t.id !== action.id) : state;
+    case 'patch':
+      return updateTarget(state, action.id, t => ({ ...t, ...action.patch }));
+    case 'review': {
+      const target = state.find(t => t.id === action.id);
+      if (!target || target.status !== 'completed' || !target.processedUrl) return state;
+      return updateTarget(state, action.id, t => ({ ...t, review: action.review }));
+    }
+    case 'select_generation': {
+      const generation = state.find(t => t.id === action.id)?.generations?.find(g => g.id === action.generationId);
+      return generation ? updateTarget(state, action.id, t => withPreferred(t, generation)) : state;
+    }
+    default: {
+      const target = state.find(t => t.id === action.id);
+      if (!target) return state;
+      const to = nextStatus(action, target);
+      if (!canTransition(target.status, to)) return state;
+      return updateTarget(state, action.id, t => {
+        if (action.type === 'complete') {
+          return withPreferred({ ...t, status: to, error: undefined, failure: undefined, generations: [...(t.generations || []), action.generation] }, action.generation);
+        }
+        if (action.type === 'fail') return { ...t, status: to, error: action.failure.message, failure: action.failure };
+        return { ...t, status: to, error: undefined, failure: undefined };
+      });
+    }
+  }
+};
+
+export const createTargetStore = (initial: ProcessedImage[] = []) => {
+  let state = initial;
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    getTarget: (id: string) => state.find(t => t.id === id),
+    // Returns false when the action was rejected (unknown id or invalid transition)
+    dispatch: (action: TargetAction): boolean => {
+      const next = targetsReducer(state, action);
+      if (next === state) {
+        if (STATUS_ACTIONS.includes(action.type)) {
+          const current = state.find(t => t.id === (action as { id: string }).id);
+          console.warn(`Rejected '${action.type}' for target ${(action as { id: string }).id} (${current ? current.status : 'missing'})`);
+        }
+        return false;
+      }
+      state = next;
+      listeners.forEach(l => l());
+      return true;
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export type TargetStore = ReturnType<typeof createTargetStore>;
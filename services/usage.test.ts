@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SWAP_SETTINGS } from '../constants';
+import { CallUsage, ModelType, UsageRecord } from '../types';
+import { costByTarget, costOf, estimateJobCost, formatCost, summarize, usageCsv } from './usage';
+
+const call = (patch: Partial<CallUsage> = {}): CallUsage => ({
+  kind: 'swap', model: ModelType.GEMINI_3_PRO_IMAGE,
+  inputTokens: 0, outputTokens: 0, imageOutputTokens: 0, imagesIn: 0, imagesOut: 0, latencyMs: 0,
+  ...patch,
+});
+
+const record = (patch: Partial<UsageRecord> = {}): UsageRecord => ({
+  ...call(), id: 'r', projectId: 'p', cost: 0, createdAt: 0, ...patch,
+});
+
+describe('costOf', () => {
+  it('bills image output at the image rate and the rest as text', () => {
+    const cost = costOf(call({ inputTokens: 1000, outputTokens: 1220, imageOutputTokens: 1120 }));
+    expect(cost).toBeCloseTo((1000 * 2 + 100 * 12 + 1120 * 120) / 1_000_000, 10);
+  });
+
+  it('charges nothing for models without pricing', () => {
+    expect(costOf(call({ model: 'local-compositor', inputTokens: 5000 }))).toBe(0);
+  });
+});
+
+describe('formatCost', () => {
+  it('shows sub-cent amounts to four places', () => {
+    expect(formatCost(0.0025)).toBe('$0.0025');
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(1.5)).toBe('$1.50');
+  });
+});
+
+describe('estimateJobCost', () => {
+  const job = { referenceImages: 1, needsAnalysis: false, verifies: false };
+
+  it('prices the swap at the configured resolution', () => {
+    expect(estimateJobCost(DEFAULT_SWAP_SETTINGS, 'final', job)).toBeCloseTo(((2 * 560 + 800) * 2 + 1120 * 120) / 1_000_000, 10);
+  });
+
+  it('adds one analysis call each for target analysis and verification', () => {
+    const swap = estimateJobCost(DEFAULT_SWAP_SETTINGS, 'final', job);
+    const analysis = ((560 + 300) * 0.5 + 700 * 3) / 1_000_000;
+    expect(estimateJobCost(DEFAULT_SWAP_SETTINGS, 'final', { ...job, needsAnalysis: true, verifies: true })).toBeCloseTo(swap + 2 * analysis, 10);
+  });
+
+  it('prices drafts with the draft engine', () => {
+    expect(estimateJobCost(DEFAULT_SWAP_SETTINGS, 'draft', job)).toBeLessThan(estimateJobCost(DEFAULT_SWAP_SETTINGS, 'final', job));
+  });
+});
+
+describe('ledger summaries', () => {
+  const records = [
+    record({ id: '1', targetId: 'a', cost: 0.1, inputTokens: 10, imagesOut: 1, createdAt: 2000 }),
+    record({ id: '2', targetId: 'a', cost: 0.2, outputTokens: 5, createdAt: 1000 }),
+    record({ id: '3', cost: 0.05, kind: 'analysis', createdAt: 3000 }),
+  ];
+
+  it('totals calls, tokens and cost', () => {
+    expect(summarize(records)).toMatchObject({ calls: 3, inputTokens: 10, outputTokens: 5, imagesOut: 1 });
+    expect(summarize(records).cost).toBeCloseTo(0.35);
+  });
+
+  it('groups cost by target and skips calls without one', () => {
+    const totals = costByTarget(records);
+    expect([...totals.keys()]).toEqual(['a']);
+    expect(totals.get('a')).toBeCloseTo(0.3);
+  });
+
+  it('exports oldest first with the project name resolved', () => {
+    const lines = usageCsv(records, { p: 'Shoot, day 1' }).split('\r\n');
+    expect(lines).toHaveLength(4);
+    expect(lines[0].startsWith('date,project,project_id')).toBe(true);
+    expect(lines[1]).toContain('"Shoot, day 1",p,a');
+    expect(lines[1].endsWith('0.200000')).toBe(true);
+  });
+});
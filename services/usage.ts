@@ -0,0 +1,103 @@
+import { CallUsage, ProcessedImage, SourceIdentity, SwapSettings, UsageRecord } from "../types";
+import { ESTIMATE_TOKENS, MODEL_PRICING } from "../constants";
+import { imageSizeFor, JobTier, jobTier, modelLabel, settingsForTier } from "./engine";
+import { resolveSwapSources } from "./identities";
+import { effectiveSettings } from "./presets";
+import { csvCell } from "./exportService";
+
+const PER_MILLION = 1_000_000;
+
+// USD for one call at list price; unknown models (the local compositor) cost nothing
+export const costOf = (usage: CallUsage) => {
+  const pricing = MODEL_PRICING[usage.model];
+  if (!pricing) return 0;
+  const textOutput = Math.max(0, usage.outputTokens - usage.imageOutputTokens);
+  return (
+    usage.inputTokens * pricing.input +
+    textOutput * pricing.output +
+    usage.imageOutputTokens * (pricing.imageOutput ?? pricing.output)
+  ) / PER_MILLION;
+};
+
+export const formatCost = (usd: number) => `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const analysisEstimate = (model: string): CallUsage => ({
+  kind: 'analysis', model,
+  inputTokens: ESTIMATE_TOKENS.inputImage + ESTIMATE_TOKENS.analysisPrompt,
+  outputTokens: ESTIMATE_TOKENS.analysisOutput, imageOutputTokens: 0,
+  imagesIn: 1, imagesOut: 0, latencyMs: 0,
+});
+
+export interface JobShape {
+  referenceImages: number;
+  needsAnalysis: boolean; // target not analyzed yet
+  verifies: boolean; // output is re-analyzed for scale or identity checks
+}
+
+// Expected cost of one job on its first attempt; regenerations after failed checks are not predicted
+export const estimateJobCost = (settings: SwapSettings, tier: JobTier, job: JobShape) => {
+  const effective = settingsForTier(settings, tier);
+  const pricing = MODEL_PRICING[effective.swapModel];
+  const size = imageSizeFor(effective) ?? '1K';
+  const imageTokens = pricing?.imageTokens?.[size] ?? Object.values(pricing?.imageTokens ?? {})[0] ?? 0;
+  let cost = costOf({
+    kind: 'swap', model: effective.swapModel,
+    inputTokens: (job.referenceImages + 1) * ESTIMATE_TOKENS.inputImage + ESTIMATE_TOKENS.swapPrompt,
+    outputTokens: imageTokens, imageOutputTokens: imageTokens,
+    imagesIn: job.referenceImages + 1, imagesOut: 1, latencyMs: 0,
+  });
+  if (job.needsAnalysis) cost += costOf(analysisEstimate(effective.analysisModel));
+  if (job.verifies) cost += costOf(analysisEstimate(effective.analysisModel));
+  return cost;
+};
+
+// Estimate for queueing one target as the runner would; targets the runner would reject cost nothing
+export const estimateTargetCost = (target: ProcessedImage, settings: SwapSettings, identities: SourceIdentity[], activeIdentityId?: string) => {
+  let sources;
+  try {
+    sources = resolveSwapSources(target, identities, activeIdentityId);
+  } catch {
+    return 0;
+  }
+  const targetSettings = effectiveSettings(settings, target.settingsOverride);
+  return estimateJobCost(targetSettings, jobTier(target, targetSettings), {
+    referenceImages: sources.reduce((n, s) => n + s.images.length, 0),
+    needsAnalysis: !target.analysis,
+    verifies: targetSettings.faceScaleLock === 'fixed' || sources.some(s => s.analysis),
+  });
+};
+
+export interface UsageSummary {
+  cost: number;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  imagesOut: number;
+}
+
+export const summarize = (records: UsageRecord[]): UsageSummary => records.reduce(
+  (sum, r) => ({
+    cost: sum.cost + r.cost,
+    calls: sum.calls + 1,
+    inputTokens: sum.inputTokens + r.inputTokens,
+    outputTokens: sum.outputTokens + r.outputTokens,
+    imagesOut: sum.imagesOut + r.imagesOut,
+  }),
+  { cost: 0, calls: 0, inputTokens: 0, outputTokens: 0, imagesOut: 0 },
+);
+
+export const costByTarget = (records: UsageRecord[]) => {
+  const totals = new Map<string, number>();
+  records.forEach(r => { if (r.targetId) totals.set(r.targetId, (totals.get(r.targetId) ?? 0) + r.cost); });
+  return totals;
+};
+
+// One row per call, oldest first. Project names are resolved at export time; deleted projects keep their id.
+export const usageCsv = (records: UsageRecord[], projectNames: Record<string, string>) => {
+  const columns = ['date', 'project', 'project_id', 'target_id', 'batch_id', 'kind', 'model', 'input_tokens', 'output_tokens', 'image_output_tokens', 'images_in', 'images_out', 'latency_ms', 'cost_usd'];
+  const rows = [...records].sort((a, b) => a.createdAt - b.createdAt).map(r => [
+    new Date(r.createdAt).toISOString(), projectNames[r.projectId] ?? '', r.projectId, r.targetId ?? '', r.batchId ?? '',
+    r.kind, modelLabel(r.model), r.inputTokens, r.outputTokens, r.imageOutputTokens, r.imagesIn, r.imagesOut, r.latencyMs, r.cost.toFixed(6),
+  ].map(csvCell).join(','));
+  return [columns.join(','), ...rows].join('\r\n');
+};
@@ -5,18 +5,43 @@ export enum ModelType {
   GEMINI_2_5_FLASH_IMAGE = 'gemini-2.5-flash-image', // Nano Banana
 }
 
+export type OutputResolution = '1K' | '2K' | '4K';
+
+export type Point = [number, number]; // [y, x], 0-1000 like face_box
+
+export interface Landmarks {
+  left_eye?: Point;
+  right_eye?: Point;
+  nose_tip?: Point;
+  mouth_center?: Point;
+  jawline?: Point[]; // left to right
+}
+
+export interface DetectedFace {
+  face_box: number[]; // [ymin, xmin, ymax, xmax], 0-1000
+  landmarks?: Landmarks;
+  confidence?: number; // 0-1, absent when the model didn't report one
+}
+
+export type LightingDirection = 'front' | 'left' | 'right' | 'top' | 'bottom' | 'top-left' | 'top-right' | 'back' | 'diffuse' | 'unknown';
+
+// Top-level face_box/landmarks describe the primary (largest) face; `faces` lists every face, left to right.
+// Provider output is validated and normalized into this shape (see analysisValidation).
 export interface FaceAnalysisResult {
   face_box: number[];
-  landmarks: Record<string, any>;
-  skin_tone: string;
+  landmarks: Landmarks;
+  skin_tone: string; // '' when not reported
   undertone: string;
   lighting: {
-    direction: string;
-    intensity: number;
+    direction: LightingDirection;
+    intensity?: number; // 0-1
     color_temperature: string;
   };
-  face_scale_ratio: number;
-  confidence: number;
+  face_scale_ratio?: number; // face box area / image area
+  confidence?: number; // 0-1, absent when the model didn't report one
+  occlusions?: string[]; // what covers the primary face (sunglasses, hand, hair, mask, ...)
+  faces?: DetectedFace[];
+  warnings?: string[]; // what validation normalized or dropped
 }
 
 export interface SwapSettings {
@@ -24,22 +49,291 @@ export interface SwapSettings {
   matchSkinTone: boolean;
   matchLighting: boolean;
   faceScaleLock: 'auto' | 'fixed';
+  faceScaleTolerance: number; // max allowed face box drift in 'fixed' mode, 0-1
+  qualityThreshold: number; // min identity similarity before an output is retried/flagged, 0-1
   skinSmoothness: number; // 0-10
   outputQuality: number; // 0-100
+  maskedComposite: boolean; // keep every pixel outside the face/neck mask identical to the target
+  maskFeather: number; // soft mask edge as % of the image's shorter side, 0-5
+  colorMatch: boolean; // grade swapped skin toward the target's neck (LAB), independent of the prompt
+  seamlessBlend: boolean; // Poisson-style correction so the face region meets the target at the mask edge
+  swapModel: ModelType; // image model for swaps
+  resolution: OutputResolution; // ignored by models with a fixed output size
+  analysisModel: ModelType; // model for face analysis and output verification
+  draftMode: boolean; // cheap low-res drafts first; approved drafts are upgraded to swapModel
+  intendedUsage: ConsentUsage; // what the outputs are for; every identity's consent must allow it
+}
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ExportOptions {
+  filenameTemplate: string; // tokens: {name} {identity} {index} {date} {id}
+  format: ExportFormat; // JPEG/WebP encode at each output's outputQuality
+  includeOriginals: boolean; // before/after pairs
+  manifest: 'none' | 'csv' | 'json';
+  watermark: boolean; // visible label; provenance metadata is always embedded
+  approvedOnly: boolean; // skip outputs not approved in review; the manifest still lists them
+}
+
+// Embedded into exported outputs (PNG iTXt, JPEG/WebP XMP)
+export interface Provenance {
+  software: string;
+  model: string;
+  settings?: SwapSettings;
+  identityIds: string[];
+  targetId: string;
+  createdAt: string; // ISO 8601
+  disclosure: string;
+  consent?: Array<Omit<ConsentRecord, 'recordedAt'> & { identityId: string }>;
+}
+
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  settings: SwapSettings;
+  updatedAt: number;
+}
+
+export interface ScaleCheck {
+  drift: number;
+  tolerance: number;
+  passed: boolean;
+  attempts: number;
+}
+
+export interface QualityCheck {
+  score: number; // 0-1 identity similarity to the source
+  breakdown: { landmarks: number | null; geometry: number | null; skin: number | null };
+  threshold: number;
+  passed: boolean;
+  attempts: number;
+}
+
+export type ReviewState = 'pending' | 'approved' | 'rejected';
+
+// A reviewer's verdict on the preferred output. Unset means pending; cleared whenever the preferred output changes.
+export interface Review {
+  state: Exclude<ReviewState, 'pending'>;
+  reason?: string; // why it was rejected
+  reviewedAt: number;
+}
+
+// One swap output for a target; targets keep every re-roll
+export interface Generation {
+  id: string;
+  url: string;
+  settings: SwapSettings;
+  model: string;
+  createdAt: number;
+  identityIds?: string[]; // source identities swapped in
+  draft?: boolean; // produced by draft mode with the cheap engine
+  quality?: QualityCheck;
+  scaleCheck?: ScaleCheck;
 }
 
 export interface ProcessedImage {
   id: string;
   originalUrl: string;
-  processedUrl?: string;
+  fileName?: string; // name of the uploaded file, for export naming
+  sequence?: number; // 1-based upload order; stable when other targets are removed
+  contentHash?: string; // SHA-256 of originalUrl bytes, analysis cache key
+  processedUrl?: string; // mirrors the preferred generation
   status: 'idle' | 'processing' | 'completed' | 'failed';
-  error?: string;
+  error?: string; // user-facing message of the last failure
+  failure?: SwapFailure; // the same failure with diagnostics
   analysis?: FaceAnalysisResult;
+  scaleCheck?: ScaleCheck;
+  quality?: QualityCheck;
+  selectedFaces?: number[]; // indices into analysis.faces chosen for replacement
+  identityId?: string; // falls back to the active identity when unset
+  faceIdentities?: Record<number, string>; // per-face identity for group shots, overrides identityId
+  settingsOverride?: Partial<SwapSettings>; // layered over the global settings
+  effectiveSettings?: SwapSettings; // exactly what produced processedUrl
+  generations?: Generation[];
+  preferredGenerationId?: string;
+  maskUrl?: string; // brush-edited edit region (alpha > 0 = editable); the auto mask is used when unset
+  review?: Review;
+  notes?: string; // free-form reviewer notes, kept across re-runs
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+export type ConsentUsage = 'advertising' | 'editorial' | 'social' | 'internal';
+
+// Permission from the person whose face is used as a source
+export interface ConsentRecord {
+  subjectName: string;
+  documentRef: string; // release form id, contract number or document link
+  expiresAt?: string; // YYYY-MM-DD, last valid day; unset means no expiry
+  allowedUsages: ConsentUsage[];
+  recordedAt: number;
+}
+
+export type FaceAngle = 'front' | 'three_quarter' | 'profile';
+
+export type ReferenceIssue = 'no_face' | 'multiple_faces' | 'blurry' | 'occluded' | 'low_resolution';
+
+// Quality of one reference image, from its analysis and pixels
+export interface ReferenceCheck {
+  angle?: FaceAngle; // unknown without eye and nose landmarks
+  yaw?: number; // degrees, estimated; sign says which way the face turns
+  issues: ReferenceIssue[];
+  faceCount: number;
+  facePixels?: number; // shorter side of the face box in source pixels
+  sharpness?: number; // variance of the Laplacian over the face, at a fixed crop size
+  occlusions?: string[];
+  checkedAt: number;
+}
+
+export interface SourceIdentity {
+  id: string;
+  name: string;
+  images: string[];
+  analysis?: FaceAnalysisResult; // of images[0], the primary reference
+  referenceChecks?: (ReferenceCheck | undefined)[]; // aligned with images; undefined until checked
+  consent?: ConsentRecord;
+  createdAt: number;
+}
+
+// One identity and the target faces it replaces
+export interface SwapSource {
+  identityId: string;
+  name: string;
+  images: string[];
+  analysis?: FaceAnalysisResult;
+  targetFaces: number[]; // indices into targetAnalysis faces; [] means the primary face
+}
+
+export type UsageKind = 'analysis' | 'swap';
+
+// Reported by a provider for every model call it makes
+export interface CallUsage {
+  kind: UsageKind;
+  model: string;
+  inputTokens: number;
+  outputTokens: number; // includes thinking tokens, which are billed as output
+  imageOutputTokens: number; // part of outputTokens billed at the image rate
+  imagesIn: number;
+  imagesOut: number;
+  latencyMs: number;
+}
+
+export type UsageSink = (usage: CallUsage) => void;
+
+// One billed call in the ledger. Kept when its project is deleted; the spend already happened.
+export interface UsageRecord extends CallUsage {
+  id: string;
+  projectId: string;
+  targetId?: string;
+  batchId?: string; // one enqueue action (Run Batch, Retry Failed, a re-roll, ...)
+  cost: number; // USD at the pricing in effect when recorded
+  createdAt: number;
+}
+
+export interface ModelPricing {
+  input: number; // USD per 1M input tokens
+  output: number; // USD per 1M text/thinking output tokens
+  imageOutput?: number; // USD per 1M image output tokens
+  imageTokens?: Partial<Record<OutputResolution, number>>; // output tokens per generated image, for estimates
+}
+
+export interface SwapRequest {
+  sources: SwapSource[];
+  targetImage: string;
+  settings: SwapSettings;
+  targetAnalysis?: FaceAnalysisResult;
+  mask?: string; // edited mask for targetImage, see ProcessedImage.maskUrl
+  draft?: boolean; // settings already carry the draft engine; drafts are not regenerated on failed checks
+  onUsage?: UsageSink; // called once per model call, including verification analyses
+  signal?: AbortSignal;
+}
+
+// Image backend: every provider must honor the same face_box / landmark conventions
+export interface ImageProvider {
+  id: ProviderId;
+  label: string;
+  modelSelection: boolean; // honors swapModel/resolution/analysisModel from the settings
+  swapModel: (settings: SwapSettings) => string; // recorded on every generation
+  analyzeFace: (imageBase64: string, model?: string, onUsage?: UsageSink) => Promise<FaceAnalysisResult>;
+  performFaceSwap: (request: SwapRequest) => Promise<string>;
+}
+
+export type ErrorClass = 'rate_limit' | 'server' | 'network' | 'fatal';
+
+// What went wrong, independent of provider; message, remedy and retry class per kind are in ERROR_KINDS
+export type ErrorKind =
+  | 'auth'
+  | 'rate_limit'
+  | 'server'
+  | 'network'
+  | 'safety'
+  | 'bad_response' // empty, text-only or unparseable
+  | 'invalid_input'
+  | 'consent'
+  | 'unknown';
+
+// Raw metadata of the model response that failed, for the diagnostics drawer
+export interface ResponseDiagnostics {
+  httpStatus?: number;
+  responseId?: string;
+  modelVersion?: string;
+  finishReason?: string;
+  finishMessage?: string;
+  blockReason?: string; // prompt was refused before generation
+  blockReasonMessage?: string;
+  safetyRatings?: { category?: string; probability?: string; blocked?: boolean }[];
+  usage?: Record<string, unknown>;
+  text?: string; // start of any text the model returned instead of the expected output
+}
+
+// What was asked for, without the images
+export interface RequestSummary {
+  provider: string;
+  model: string;
+  resolution?: OutputResolution;
+  analysisModel: string;
+  draft: boolean;
+  identities: string[];
+  referenceImages: number;
+  faces: number[];
+  mask: 'off' | 'auto' | 'custom';
+}
+
+export interface SwapFailure {
+  kind: ErrorKind;
+  message: string; // user-facing
+  remedy: string;
+  retryable: boolean; // retried automatically by the queue
+  detail: string; // original error text
+  operation?: UsageKind; // which call failed, when a model call failed
+  attempts: number;
+  failedAt: number;
+  request?: RequestSummary;
+  response?: ResponseDiagnostics;
+}
+
+export interface RetryPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetries: Record<ErrorClass, number>; // retries allowed after the first attempt
+}
+
+// A named workspace; targets, identities and settings are stored per project
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail?: string; // small JPEG data URL of the first output (or original)
+  targetCount?: number;
 }
 
 export interface AppSessionState {
   targets: ProcessedImage[];
-  sourceFaces: string[]; // Changed to array
+  identities?: SourceIdentity[];
+  activeIdentityId?: string;
+  // Pre-identity-library sessions; migrated into a single identity on load
+  sourceFaces?: string[];
   analysis?: FaceAnalysisResult;
 }
 